@@ -0,0 +1,25 @@
+// app/api/cron/sweep/route.ts
+// Periodic clean-up of generations nobody is watching (see
+// lib/generations/generation-sweep.ts). Scheduled in vercel.json; Vercel Cron
+// sends CRON_SECRET as a bearer token.
+import { NextRequest, NextResponse } from "next/server";
+import { sweepStaleGenerations } from "@/lib/generations/generation-sweep";
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const swept = await sweepStaleGenerations();
+    console.log(`🧹 SWEEP: Checked ${swept} stale generations`);
+    return NextResponse.json({ swept });
+  } catch (error) {
+    console.error("🧹 SWEEP: Error:", error);
+    return NextResponse.json(
+      { error: "Failed to sweep generations" },
+      { status: 500 }
+    );
+  }
+}
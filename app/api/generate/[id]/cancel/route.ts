@@ -0,0 +1,108 @@
+// app/api/generate/[id]/cancel/route.ts
+// Cancels an in-flight prediction at its provider and refunds its credit (once)
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/api/authenticate";
+import {
+  generationRecords,
+  isTerminalStatus,
+} from "@/lib/generations/generation-records";
+import { generationQueue } from "@/lib/generations/generation-queue";
+import {
+  getProvider,
+  ProviderError,
+  type ProviderPrediction,
+} from "@/lib/providers";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const record = await generationRecords.findByClientId(id);
+    if (!record || record.user_id !== user.id) {
+      return NextResponse.json(
+        { error: "Prediction not found" },
+        { status: 404 }
+      );
+    }
+
+    // Nothing left to cancel
+    if (isTerminalStatus(record.status)) {
+      return NextResponse.json({
+        success: record.status === "canceled",
+        status: record.status,
+      });
+    }
+
+    console.log(`🛑 CANCEL: Canceling prediction ${id}`);
+
+    // Still queued (or its prediction is being created, which the queue or
+    // startGeneration then cancels) - there's nothing at the provider to stop
+    if (!record.prediction_id) {
+      const updated = await generationRecords.syncPrediction(
+        record,
+        { status: "canceled" },
+        { retry: false }
+      );
+
+      return NextResponse.json({
+        success: updated.status === "canceled",
+        status: updated.status,
+      });
+    }
+
+    let prediction: ProviderPrediction;
+    try {
+      // After a retry the running prediction is no longer the one the client knows
+      prediction = await getProvider(record.provider).cancel(
+        record.prediction_id!
+      );
+    } catch (providerError) {
+      if (!(providerError instanceof ProviderError)) throw providerError;
+
+      console.error(`🛑 CANCEL: Provider error: ${providerError.message}`);
+      return NextResponse.json(
+        { error: "Failed to cancel generation" },
+        { status: 502 }
+      );
+    }
+
+    // If it finished before the cancel landed, keep the real outcome
+    const updated = await generationRecords.syncPrediction(
+      record,
+      {
+        status: isTerminalStatus(prediction.status)
+          ? prediction.status
+          : "canceled",
+        output: prediction.output,
+        error: prediction.error,
+        started_at: prediction.started_at,
+        completed_at: prediction.completed_at,
+      },
+      // The user gave up on it - don't start another attempt
+      { retry: false }
+    );
+
+    console.log(`🛑 CANCEL: Prediction ${id} is ${updated.status}`);
+
+    await generationQueue.dispatch();
+
+    return NextResponse.json({
+      success: updated.status === "canceled",
+      status: updated.status,
+    });
+  } catch (error) {
+    console.error("🛑 CANCEL: Error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel generation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+// app/api/generate/batch/[id]/route.ts
+// Aggregate status of a "try all" batch - each item is resolved like
+// /api/status/[id], so polling this also settles retries and refunds
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/lib/api/authenticate";
+import {
+  generationRecords,
+  isGenerationId,
+  isTerminalStatus,
+} from "@/lib/generations/generation-records";
+import { resolvePredictionStatus } from "@/lib/generations/prediction-status";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const records = isGenerationId(id)
+      ? (await generationRecords.findByBatchId(id)).filter(
+          (record) => record.user_id === user.id
+        )
+      : [];
+    if (records.length === 0) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    const items = await Promise.all(
+      records.map(async (initialRecord) => {
+        let record = initialRecord;
+        const status = await resolvePredictionStatus(record).catch(
+          (statusError) => {
+            // Transient - report the stored state and check again next poll
+            console.error(`🔍 BATCH: Failed to check ${record.id}:`, statusError);
+            return undefined;
+          }
+        );
+
+        // The provider doesn't know the prediction, so it will never settle
+        // by itself - fail and refund it instead of reporting it as running
+        if (status === null) {
+          record = await generationRecords.syncPrediction(
+            record,
+            { status: "failed", error: "Prediction not found" },
+            { retry: false }
+          );
+        }
+
+        return {
+          generation_id: record.id,
+          prediction_id: status?.id ?? record.prediction_id,
+          labubu_id: record.labubu_id,
+          status: status?.status ?? record.status,
+          output: status?.output,
+          error: status?.error ?? record.error ?? undefined,
+          progress: status?.progress ?? 0,
+          estimated_time: status?.estimated_time ?? 0,
+          queue_position: status?.queue_position,
+          output_options_applied: status?.output_options_applied,
+        };
+      })
+    );
+
+    const completed = items.filter((item) => isTerminalStatus(item.status));
+
+    return NextResponse.json({
+      batch_id: id,
+      status: completed.length === items.length ? "completed" : "processing",
+      total: items.length,
+      completed: completed.length,
+      succeeded: items.filter((item) => item.status === "succeeded").length,
+      failed: items.filter(
+        (item) => item.status === "failed" || item.status === "canceled"
+      ).length,
+      // Over the per-user limit - these start as the others finish
+      queued: items.filter((item) => item.status === "queued").length,
+      // Settled items count as done, whether or not they succeeded
+      progress: Math.round(
+        items.reduce(
+          (sum, item) =>
+            sum + (isTerminalStatus(item.status) ? 100 : item.progress),
+          0
+        ) / items.length
+      ),
+      // The slowest item decides when the batch is done
+      estimated_time: Math.max(...items.map((item) => item.estimated_time)),
+      items,
+    });
+  } catch (error) {
+    console.error("🔍 BATCH: Error:", error);
+    return NextResponse.json(
+      { error: "Failed to check batch status" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,205 @@
+// app/api/generate/batch/route.ts
+// "Try all": one photo, one generation per selected Labubu. Each item is
+// reserved and charged on its own, so a batch can partially start.
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AI_CONFIG,
+  DEFAULT_POSE,
+  DEFAULT_STYLE,
+  LABUBU_OPTIONS,
+  getLabubuName,
+  getPosePreset,
+  getStylePreset,
+  isPoseAvailable,
+} from "@/lib/config";
+import { getAuthenticatedUser } from "@/lib/api/authenticate";
+import {
+  parseExtraPrompt,
+  parseOutputOptions,
+  resolvePhotoUrl,
+  startGeneration,
+  type StartGenerationResult,
+} from "@/lib/generations/start-generation";
+
+interface BatchGenerationRequest {
+  // Same photo options as /api/generate
+  image_key?: string;
+  image?: string;
+  // One generation per Labubu, in this order
+  labubu_ids: number[];
+  // Falls back to holding for Labubus it isn't available for
+  pose?: string;
+  style?: string;
+  extra_prompt?: string;
+  // Applied to every item
+  output_format?: string;
+  aspect_ratio?: string;
+  upscale?: boolean;
+}
+
+interface BatchItem {
+  labubu_id: number;
+  labubu_name: string;
+  generation_id?: string;
+  // Queued items are polled and canceled by generation_id until they start
+  prediction_id?: string;
+  status: "processing" | "queued" | "failed";
+  queue_position?: number;
+  credit_tier?: "free" | "paid";
+  error?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const {
+      image,
+      image_key,
+      labubu_ids,
+      pose = DEFAULT_POSE,
+      style = DEFAULT_STYLE,
+      extra_prompt,
+      output_format,
+      aspect_ratio,
+      upscale,
+    }: BatchGenerationRequest = await request.json();
+
+    // Validation
+    if (
+      !Array.isArray(labubu_ids) ||
+      labubu_ids.length < 2 ||
+      labubu_ids.length > AI_CONFIG.MAX_BATCH_SIZE ||
+      new Set(labubu_ids).size !== labubu_ids.length ||
+      !labubu_ids.every((id) => LABUBU_OPTIONS.some((l) => l.id === id))
+    ) {
+      return NextResponse.json(
+        {
+          error: `labubu_ids must be 2 to ${AI_CONFIG.MAX_BATCH_SIZE} different Labubus`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (typeof pose !== "string" || !getPosePreset(pose)) {
+      return NextResponse.json({ error: "Unknown pose" }, { status: 400 });
+    }
+
+    if (typeof style !== "string" || !getStylePreset(style)) {
+      return NextResponse.json({ error: "Unknown style" }, { status: 400 });
+    }
+
+    const output = parseOutputOptions(output_format, aspect_ratio, upscale);
+    if ("error" in output) {
+      return NextResponse.json({ error: output.error }, { status: output.status });
+    }
+
+    const extraPrompt = parseExtraPrompt(user.id, extra_prompt);
+    if ("error" in extraPrompt) {
+      return NextResponse.json(
+        { error: extraPrompt.error, code: extraPrompt.code },
+        { status: extraPrompt.status }
+      );
+    }
+
+    const photo = await resolvePhotoUrl(user.id, image, image_key);
+    if ("error" in photo) {
+      return NextResponse.json({ error: photo.error }, { status: photo.status });
+    }
+
+    const batchId = crypto.randomUUID();
+    console.log(`🚀 BATCH: Starting batch ${batchId} for Labubus ${labubu_ids.join(", ")}`);
+
+    // One at a time, stopping once the credits run out
+    const items: BatchItem[] = [];
+    let firstFailure: Extract<StartGenerationResult, { started: false }> | null =
+      null;
+    let credits: number | undefined;
+
+    for (const labubuId of labubu_ids) {
+      const labubuType = LABUBU_OPTIONS.find((l) => l.id === labubuId)!.type;
+      const item: BatchItem = {
+        labubu_id: labubuId,
+        labubu_name: getLabubuName(labubuId),
+        status: "failed",
+      };
+      items.push(item);
+
+      if (firstFailure?.status === 402) {
+        item.error = firstFailure.error;
+        continue;
+      }
+
+      try {
+        const result = await startGeneration({
+          userId: user.id,
+          labubuIds: [labubuId],
+          photoUrl: photo.photoUrl,
+          photoKey: photo.photoKey,
+          pose: isPoseAvailable(pose, labubuType) ? pose : DEFAULT_POSE,
+          style,
+          numOutputs: 1,
+          extraPrompt: extraPrompt.extraPrompt,
+          batchId,
+          outputOptions: output.outputOptions,
+        });
+
+        if (result.started) {
+          item.generation_id = result.generationId;
+          item.credit_tier = result.creditTier;
+          if (result.predictionId) {
+            item.status = "processing";
+            item.prediction_id = result.predictionId;
+          } else {
+            item.status = "queued";
+            item.queue_position = result.queuePosition ?? undefined;
+          }
+          credits = result.credits;
+        } else {
+          item.error = result.error;
+          firstFailure ??= result;
+          credits = result.credits ?? credits;
+        }
+      } catch (itemError) {
+        console.error(`🚀 BATCH: Failed to start Labubu ${labubuId}:`, itemError);
+        item.error = "Failed to start generation";
+      }
+    }
+
+    // Queued items are charged too - they start as earlier ones finish
+    const started = items.filter((item) => item.status !== "failed").length;
+    console.log(`🚀 BATCH: Started ${started}/${items.length} generations for batch ${batchId}`);
+
+    if (started === 0) {
+      const status = firstFailure?.status ?? 500;
+      return NextResponse.json(
+        {
+          error: firstFailure?.error ?? "Failed to generate images. Please try again.",
+          ...(status === 402 && {
+            credits,
+            required: labubu_ids.length * AI_CONFIG.CREDITS_PER_OUTPUT,
+          }),
+        },
+        { status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      batch_id: batchId,
+      status: "processing",
+      items,
+      started,
+      credits,
+    });
+  } catch (error) {
+    console.error("🚀 BATCH: Batch generation error:", error);
+    return NextResponse.json(
+      { error: "Failed to generate images. Please try again." },
+      { status: 500 }
+    );
+  }
+}
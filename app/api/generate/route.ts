@@ -1,94 +1,199 @@
 import { NextRequest, NextResponse } from "next/server";
-import { AI_CONFIG, getLabubuImageUrl, getLabubuName, generatePrompt } from "@/lib/config";
+import {
+  AI_CONFIG,
+  DEFAULT_POSE,
+  DEFAULT_STYLE,
+  LABUBU_OPTIONS,
+  isPoseAvailable,
+  getStylePreset,
+} from "@/lib/config";
+import { getAuthenticatedUser } from "@/lib/api/authenticate";
+import {
+  generationRecords,
+  isGenerationId,
+} from "@/lib/generations/generation-records";
+import {
+  parseExtraPrompt,
+  parseOutputOptions,
+  resolvePhotoUrl,
+  startGeneration,
+} from "@/lib/generations/start-generation";
 
 interface GenerationRequest {
-  image: string;
-  labubu_id: number;
-}
-
-interface ReplicateResponse {
-  id: string;
-  status: string;
-  output?: string | string[];
-  error?: string;
-  logs?: string;
+  // R2 key from /api/uploads; preferred over an inline image
+  image_key?: string;
+  // Base64 data URL, for when uploads aren't configured
+  image?: string;
+  labubu_id?: number;
+  // Several Labubus in one scene; takes precedence over labubu_id
+  labubu_ids?: number[];
+  // POSE_PRESETS id
+  pose?: string;
+  // STYLE_PRESETS id (defaults to photoreal)
+  style?: string;
+  num_outputs?: number;
+  // Short free-text addition, moderated before it reaches the prompt
+  extra_prompt?: string;
+  // Earlier generation this one regenerates (same photo, possibly another Labubu)
+  parent_generation_id?: string;
+  // OUTPUT_FORMATS id (defaults to jpg)
+  output_format?: string;
+  // ASPECT_RATIOS id (defaults to original)
+  aspect_ratio?: string;
+  upscale?: boolean;
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { image, labubu_id }: GenerationRequest = await request.json();
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const {
+      image,
+      image_key,
+      labubu_id,
+      labubu_ids,
+      pose = DEFAULT_POSE,
+      style = DEFAULT_STYLE,
+      num_outputs = 1,
+      extra_prompt,
+      parent_generation_id,
+      output_format,
+      aspect_ratio,
+      upscale,
+    }: GenerationRequest = await request.json();
+
+    const labubuIds = Array.isArray(labubu_ids)
+      ? labubu_ids
+      : labubu_id
+        ? [labubu_id]
+        : [];
 
     // Validation
-    if (!image || !labubu_id) {
+    if ((!image && !image_key) || labubuIds.length === 0) {
       return NextResponse.json(
-        { error: "Missing required fields: image and labubu_id" },
+        { error: "Missing required fields: image_key (or image) and labubu_id" },
         { status: 400 }
       );
     }
 
-    if (!process.env.REPLICATE_API_TOKEN) {
+    if (
+      labubuIds.length > AI_CONFIG.MAX_LABUBUS_PER_SCENE ||
+      new Set(labubuIds).size !== labubuIds.length ||
+      !labubuIds.every((id) => LABUBU_OPTIONS.some((l) => l.id === id))
+    ) {
       return NextResponse.json(
-        { error: "Replicate API token not configured" },
-        { status: 500 }
+        {
+          error: `labubu_ids must be up to ${AI_CONFIG.MAX_LABUBUS_PER_SCENE} different Labubus`,
+        },
+        { status: 400 }
       );
     }
 
-    // Get Labubu reference image URL and name
-    const labubuImageUrl = getLabubuImageUrl(labubu_id);
-    const labubuName = getLabubuName(labubu_id);
-
-    console.log(`🚀 GENERATE: Starting single-step generation for Labubu ${labubu_id} (${labubuName})`);
-
-    // Single API call to Nano Banana
-    const response = await fetch("https://api.replicate.com/v1/predictions", {
-      method: "POST",
-      headers: {
-        Authorization: `Token ${process.env.REPLICATE_API_TOKEN}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        version: AI_CONFIG.MODEL,
-        input: {
-          prompt: generatePrompt(labubu_id),
-          image_input: [image, labubuImageUrl],
-          output_format: "jpg"
-        },
-      }),
-    });
+    // The pose applies to the main (first) Labubu
+    const mainLabubu = LABUBU_OPTIONS.find((l) => l.id === labubuIds[0])!;
+    if (typeof pose !== "string" || !isPoseAvailable(pose, mainLabubu.type)) {
+      return NextResponse.json(
+        { error: `Unknown pose, or not available for a ${mainLabubu.type}` },
+        { status: 400 }
+      );
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "Unknown error");
-      console.error(`🚀 GENERATE: API error: ${response.status} - ${errorText}`);
-      
-      if (response.status === 401) {
-        return NextResponse.json(
-          { error: "Invalid API credentials" },
-          { status: 401 }
-        );
-      }
-      if (response.status === 429) {
+    if (typeof style !== "string" || !getStylePreset(style)) {
+      return NextResponse.json({ error: "Unknown style" }, { status: 400 });
+    }
+
+    if (
+      !Number.isInteger(num_outputs) ||
+      num_outputs < 1 ||
+      num_outputs > AI_CONFIG.MAX_OUTPUTS
+    ) {
+      return NextResponse.json(
+        { error: `num_outputs must be between 1 and ${AI_CONFIG.MAX_OUTPUTS}` },
+        { status: 400 }
+      );
+    }
+
+    const output = parseOutputOptions(output_format, aspect_ratio, upscale);
+    if ("error" in output) {
+      return NextResponse.json({ error: output.error }, { status: output.status });
+    }
+
+    const extraPrompt = parseExtraPrompt(user.id, extra_prompt);
+    if ("error" in extraPrompt) {
+      return NextResponse.json(
+        { error: extraPrompt.error, code: extraPrompt.code },
+        { status: extraPrompt.status }
+      );
+    }
+
+    // Regenerations are charged like any other generation, just linked to their parent
+    if (parent_generation_id !== undefined && parent_generation_id !== null) {
+      const parent = isGenerationId(parent_generation_id)
+        ? await generationRecords.findById(parent_generation_id)
+        : null;
+      if (!parent || parent.user_id !== user.id) {
         return NextResponse.json(
-          { error: "Rate limit exceeded. Please try again later." },
-          { status: 429 }
+          { error: "Parent generation not found" },
+          { status: 404 }
         );
       }
-      
+    }
+
+    const photo = await resolvePhotoUrl(user.id, image, image_key);
+    if ("error" in photo) {
+      return NextResponse.json({ error: photo.error }, { status: photo.status });
+    }
+
+    const result = await startGeneration({
+      userId: user.id,
+      labubuIds,
+      photoUrl: photo.photoUrl,
+      photoKey: photo.photoKey,
+      pose,
+      style,
+      numOutputs: num_outputs,
+      extraPrompt: extraPrompt.extraPrompt,
+      parentGenerationId: parent_generation_id ?? null,
+      outputOptions: output.outputOptions,
+    });
+
+    if (!result.started) {
       return NextResponse.json(
-        { error: `API request failed: ${response.status}` },
-        { status: response.status }
+        {
+          error: result.error,
+          ...(result.status === 402 && {
+            credits: result.credits,
+            required: result.required,
+          }),
+        },
+        { status: result.status }
       );
     }
 
-    const result: ReplicateResponse = await response.json();
-    
-    console.log(`🚀 GENERATE: Single prediction created with ID: ${result.id}`);
-
     return NextResponse.json({
       success: true,
-      prediction_id: result.id,
-      status: "processing",
-      labubu_id,
-      labubu_name: labubuName
+      // Queued generations have no prediction yet - status, stream and cancel
+      // accept the generation id instead
+      prediction_id: result.predictionId ?? result.generationId,
+      generation_id: result.generationId,
+      status: result.predictionId ? "processing" : "queued",
+      queue_position: result.queuePosition,
+      labubu_id: labubuIds[0],
+      labubu_ids: labubuIds,
+      labubu_name: result.labubuName,
+      pose,
+      style,
+      num_outputs,
+      extra_prompt: extraPrompt.extraPrompt,
+      parent_generation_id: parent_generation_id ?? null,
+      output_format: output.outputOptions.format,
+      aspect_ratio: output.outputOptions.aspectRatio,
+      upscale: output.outputOptions.upscale,
+      credit_tier: result.creditTier,
+      credits: result.credits,
     });
     
   } catch (error) {
@@ -109,4 +214,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
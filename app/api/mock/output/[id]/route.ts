@@ -0,0 +1,132 @@
+// app/api/mock/output/[id]/route.ts
+// Serves the composited result of a mock-provider prediction (GENERATION_PROVIDER=mock)
+import { NextRequest, NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  AI_CONFIG,
+  LABUBU_OPTIONS,
+  getPublicUrl,
+} from "@/lib/config";
+import { getMockPrediction } from "@/lib/providers/mock-provider";
+import { r2Storage } from "@/lib/storage/r2-service";
+
+const OUTPUT_SIZE = 1024;
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+};
+
+// Overlay tints so the variants of one prediction are easy to tell apart
+const VARIANT_TINTS = ["#f3e8ff", "#fce7f3", "#dbeafe", "#dcfce7"];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Development only: this route is unauthenticated and renders user photos
+  const mockActive =
+    AI_CONFIG.PROVIDER === "mock" || AI_CONFIG.FALLBACK_PROVIDER === "mock";
+  if (process.env.NODE_ENV === "production" || !mockActive) {
+    return NextResponse.json({ error: "Output not found" }, { status: 404 });
+  }
+
+  const { id } = await params;
+
+  const prediction = getMockPrediction(id);
+  if (!prediction) {
+    return NextResponse.json({ error: "Output not found" }, { status: 404 });
+  }
+
+  const variant = Math.max(
+    0,
+    parseInt(request.nextUrl.searchParams.get("variant") || "0", 10) || 0
+  );
+
+  // Browsers won't load external images inside an SVG served as an image, so inline them all
+  const [photo, ...references] = await Promise.all(
+    prediction.input.images.map(toDataUrl)
+  );
+
+  // Shrink the references so several Labubus still fit side by side
+  const referenceSize = OUTPUT_SIZE * Math.min(0.45, 0.9 / references.length);
+  const referenceImages = references
+    .filter((href): href is string => !!href)
+    .map((href, index) => {
+      // Odd variants put the Labubu on the left
+      const offset = referenceSize * index + 24 * (index + 1);
+      const x = variant % 2 ? offset : OUTPUT_SIZE - offset - referenceSize;
+      const y = OUTPUT_SIZE - referenceSize - 24;
+      return `<image href="${escapeXml(href)}" x="${x}" y="${y}" width="${referenceSize}" height="${referenceSize}" preserveAspectRatio="xMidYMax meet" />`;
+    })
+    .join("\n  ");
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${OUTPUT_SIZE}" height="${OUTPUT_SIZE}" viewBox="0 0 ${OUTPUT_SIZE} ${OUTPUT_SIZE}">
+  <rect width="100%" height="100%" fill="#f3e8ff" />
+  ${photo ? `<image href="${escapeXml(photo)}" width="${OUTPUT_SIZE}" height="${OUTPUT_SIZE}" preserveAspectRatio="xMidYMid slice" />` : ""}
+  <rect width="100%" height="100%" fill="${VARIANT_TINTS[variant % VARIANT_TINTS.length]}" fill-opacity="0.3" />
+  ${referenceImages}
+  <rect x="24" y="24" width="132" height="44" rx="8" fill="#000" fill-opacity="0.6" />
+  <text x="90" y="54" font-family="sans-serif" font-size="22" font-weight="bold" fill="#fff" text-anchor="middle">MOCK ${variant + 1}</text>
+</svg>`;
+
+  return new NextResponse(svg, {
+    headers: {
+      "Content-Type": "image/svg+xml",
+      "Cache-Control": "private, max-age=3600",
+    },
+  });
+}
+
+// The photo and references are user-controlled - attribute values must not break out
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Image data URLs pass through, Labubu references are read from public/ and
+// our own R2 URLs are fetched. Anything else is dropped rather than fetched.
+async function toDataUrl(src: string): Promise<string | null> {
+  if (src.startsWith("data:image/")) {
+    return src;
+  }
+
+  try {
+    const labubu = LABUBU_OPTIONS.find(
+      (option) => getPublicUrl(option.image) === src
+    );
+    if (labubu) {
+      const filePath = path.join(PUBLIC_DIR, labubu.image);
+      const mimeType =
+        MIME_TYPES[path.extname(filePath).toLowerCase()] || "image/png";
+      const file = await fs.readFile(filePath);
+      return `data:${mimeType};base64,${file.toString("base64")}`;
+    }
+
+    if (!r2Storage.isStorageUrl(src)) {
+      console.warn(`Mock output: not inlining ${src.slice(0, 80)}`);
+      return null;
+    }
+
+    const response = await fetch(src);
+    const contentType = response.headers.get("content-type") || "";
+    if (!response.ok || !contentType.startsWith("image/")) {
+      return null;
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    return `data:${contentType};base64,${buffer.toString("base64")}`;
+  } catch (error) {
+    console.error(`Mock output: failed to inline ${src.slice(0, 80)}:`, error);
+    return null;
+  }
+}
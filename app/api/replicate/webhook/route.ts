@@ -0,0 +1,78 @@
+// app/api/replicate/webhook/route.ts
+// Receives prediction updates from Replicate so generations complete (and
+// failures get refunded) even when the user's browser tab is gone
+import { NextRequest, NextResponse } from "next/server";
+import { verifyReplicateWebhook } from "@/lib/replicate/webhook";
+import {
+  generationRecords,
+  isTerminalStatus,
+} from "@/lib/generations/generation-records";
+import { generationQueue } from "@/lib/generations/generation-queue";
+import { resolvePredictionStatus } from "@/lib/generations/prediction-status";
+import type { ProviderPrediction } from "@/lib/providers";
+import { splitPredictionId } from "@/lib/providers/replicate-provider";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text();
+
+    if (!verifyReplicateWebhook(request.headers, body)) {
+      console.error("🪝 REPLICATE WEBHOOK: Signature verification failed");
+      return NextResponse.json(
+        { error: "Webhook verification failed" },
+        { status: 401 }
+      );
+    }
+
+    const prediction: ProviderPrediction = JSON.parse(body);
+    console.log(
+      `🪝 REPLICATE WEBHOOK: ${prediction.id} is ${prediction.status}`
+    );
+
+    const record =
+      (await generationRecords.findByPredictionId(prediction.id)) ??
+      (await generationRecords.findByPredictionPart(prediction.id));
+    if (!record) {
+      // Not one of ours (or already cleaned up) - acknowledge so Replicate stops retrying
+      console.warn(`🪝 REPLICATE WEBHOOK: Unknown prediction ${prediction.id}`);
+      return NextResponse.json({ received: true });
+    }
+
+    const parts = splitPredictionId(record.prediction_id!);
+    if (parts.length > 1 && parts.includes(prediction.id)) {
+      // One output of a multi-output generation - settle them together
+      await resolvePredictionStatus(record);
+      return NextResponse.json({ received: true });
+    }
+
+    if (record.prediction_id !== prediction.id) {
+      // An earlier attempt that has since been retried - its outcome no longer matters
+      console.log(
+        `🪝 REPLICATE WEBHOOK: Ignoring superseded prediction ${prediction.id}`
+      );
+      return NextResponse.json({ received: true });
+    }
+
+    const updated = await generationRecords.syncPrediction(record, {
+      status: prediction.status,
+      output: prediction.output,
+      error: prediction.error,
+      started_at: prediction.started_at,
+      completed_at: prediction.completed_at,
+    });
+
+    // A slot has freed up - start whatever is waiting for it
+    if (isTerminalStatus(updated.status)) {
+      await generationQueue.dispatch();
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("🪝 REPLICATE WEBHOOK: Error:", error);
+    // 5xx makes Replicate retry the delivery
+    return NextResponse.json(
+      { error: "Webhook handler failed" },
+      { status: 500 }
+    );
+  }
+}
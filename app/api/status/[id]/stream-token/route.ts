@@ -0,0 +1,45 @@
+// app/api/status/[id]/stream-token/route.ts
+// Trade the bearer token for a single-use token that opens the status stream
+import { NextRequest, NextResponse } from "next/server";
+import { CONFIG } from "@/lib/config";
+import { getAuthenticatedUser } from "@/lib/api/authenticate";
+import { streamTokens } from "@/lib/api/stream-tokens";
+import { generationRecords } from "@/lib/generations/generation-records";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const record = await generationRecords.findByClientId(id);
+    if (!record || record.user_id !== user.id) {
+      return NextResponse.json(
+        { error: "Prediction not found" },
+        { status: 404 }
+      );
+    }
+
+    const token = await streamTokens.issue({
+      userId: user.id,
+      generationId: record.id,
+    });
+
+    return NextResponse.json({
+      token,
+      expires_in: CONFIG.STREAM_TOKEN_EXPIRY,
+    });
+  } catch (error) {
+    console.error("📡 STREAM: Failed to issue token:", error);
+    return NextResponse.json(
+      { error: "Failed to open status stream" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+// app/api/status/[id]/stream/route.ts
+// Server-Sent Events stream of generation progress - replaces client-side polling
+import { NextRequest, NextResponse } from "next/server";
+import { CONFIG } from "@/lib/config";
+import { streamTokens } from "@/lib/api/stream-tokens";
+import {
+  generationRecords,
+  isTerminalStatus,
+  type GenerationRecord,
+} from "@/lib/generations/generation-records";
+import { resolvePredictionStatus } from "@/lib/generations/prediction-status";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+// Close before the platform limit; the client reopens with a fresh token
+const STREAM_MAX_DURATION = 240000; // 4 minutes
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  let initialRecord: GenerationRecord | null;
+  try {
+    // EventSource can't send an Authorization header, so the stream takes a
+    // single-use token from /api/status/[id]/stream-token instead
+    const token = request.nextUrl.searchParams.get("token");
+    const scope = token ? await streamTokens.consume(token) : null;
+    if (!scope) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    initialRecord = await generationRecords.findByClientId(id);
+    if (
+      !initialRecord ||
+      initialRecord.id !== scope.generationId ||
+      initialRecord.user_id !== scope.userId
+    ) {
+      return NextResponse.json(
+        { error: "Prediction not found" },
+        { status: 404 }
+      );
+    }
+  } catch (error) {
+    console.error("📡 STREAM: Error:", error);
+    return NextResponse.json(
+      { error: "Failed to check status" },
+      { status: 500 }
+    );
+  }
+
+  console.log(`📡 STREAM: Opened for prediction ${id}`);
+
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+
+  const recordId = initialRecord.id;
+  // Set once the client has gone; the controller throws on any further use
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      // Named "stream_error" because "error" collides with EventSource's own error event
+      const send = (event: "status" | "stream_error", data: unknown) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      try {
+        while (!closed && !request.signal.aborted) {
+          // Re-read each time: the webhook may have settled the record meanwhile
+          const record = await generationRecords.findById(recordId);
+          const status = record && (await resolvePredictionStatus(record));
+
+          if (!status) {
+            send("stream_error", { error: "Prediction not found" });
+            break;
+          }
+
+          send("status", status);
+
+          if (isTerminalStatus(status.status)) {
+            break;
+          }
+
+          if (Date.now() - startedAt > STREAM_MAX_DURATION) {
+            break;
+          }
+
+          await new Promise((resolve) =>
+            setTimeout(resolve, CONFIG.POLLING_INTERVAL)
+          );
+        }
+      } catch (error) {
+        console.error("📡 STREAM: Error:", error);
+        send("stream_error", { error: "Failed to check status" });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+        console.log(`📡 STREAM: Closed for prediction ${id}`);
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,69 @@
+// app/api/uploads/route.ts
+// Presigned R2 upload for the photo to generate from, so /api/generate only
+// receives an object key instead of a base64 body
+import { NextRequest, NextResponse } from "next/server";
+import { CONFIG } from "@/lib/config";
+import { getAuthenticatedUser } from "@/lib/api/authenticate";
+import { r2Storage, UPLOAD_CONTENT_TYPES } from "@/lib/storage/r2-service";
+
+interface UploadRequest {
+  content_type: string;
+  size: number;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Clients fall back to sending the image inline
+    if (!r2Storage.isConfigured()) {
+      return NextResponse.json(
+        { error: "Uploads are not configured" },
+        { status: 503 }
+      );
+    }
+
+    const { content_type, size }: UploadRequest = await request.json();
+
+    if (!UPLOAD_CONTENT_TYPES[content_type]) {
+      return NextResponse.json(
+        {
+          error: `content_type must be one of ${Object.keys(UPLOAD_CONTENT_TYPES).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(size) || size <= 0 || size > CONFIG.MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `size must be at most ${CONFIG.MAX_FILE_SIZE} bytes` },
+        { status: 400 }
+      );
+    }
+
+    // The signed length stops the URL being reused for a larger file
+    const { url, key } = await r2Storage.getPresignedUploadUrl(
+      user.id,
+      content_type,
+      CONFIG.UPLOAD_URL_EXPIRY,
+      size
+    );
+
+    console.log(`📤 UPLOAD: Issued upload URL for ${key}`);
+
+    return NextResponse.json({
+      upload_url: url,
+      key,
+      expires_in: CONFIG.UPLOAD_URL_EXPIRY,
+    });
+  } catch (error) {
+    console.error("📤 UPLOAD: Failed to create upload URL:", error);
+    return NextResponse.json(
+      { error: "Failed to create upload URL" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,11 +4,29 @@ import React, { useState } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { ImageUpload } from "@/components/image-upload";
-import { LabubuSelection } from "@/components/labubu-selection";
+import {
+  LabubuSelection,
+  type SelectionMode,
+} from "@/components/labubu-selection";
+import { PoseSelection } from "@/components/pose-selection";
+import { StyleSelection } from "@/components/style-selection";
+import { OutputOptionsSelection } from "@/components/output-options";
 import { imageStorage } from "@/lib/storage";
 import { sharingService } from "@/lib/sharing";
 import { imageUtils, formatUtils, urlUtils } from "@/lib/utils";
-import { errorHandler } from "@/lib/errors";
+import {
+  AI_CONFIG,
+  DEFAULT_OUTPUT_OPTIONS,
+  DEFAULT_POSE,
+  DEFAULT_STYLE,
+  LABUBU_OPTIONS,
+  getLabubuName,
+  getOutputExtension,
+  isPoseAvailable,
+  type OutputOptions,
+  type PosePresetId,
+  type StylePresetId,
+} from "@/lib/config";
 import { HistoryGallery } from "@/components/history-gallery";
 import { ImagePreview } from "@/components/image-upload";
 import { GenerationProgress } from "@/components/loading-states";
@@ -18,25 +36,30 @@ import { SaveAccountModal } from "@/components/save-account-modal";
 import { SaveAccountBanner } from "@/components/save-account-banner";
 import { SignInModal } from "@/components/sign-in-modal";
 import { useUserStore } from "@/lib/stores/user-store";
+import { type ActiveGeneration } from "@/lib/stores/generation-store";
+import {
+  useGeneration,
+  type GenerationResult,
+  type ResultVariant,
+} from "@/lib/hooks/use-generation";
 import { AccountMenu } from "@/components/account-menu";
 import { HelpModal } from "@/components/help-modal";
 import { MobileMenu } from "@/components/mobile-menu";
 import { SmartAuthPrompt } from "@/components/auth/smart-auth-prompt";
 
-interface GenerationRequest {
-  image: string;
-  labubu_id: number;
+// Photo and Labubus to generate from, plus the generation it regenerates
+interface GenerationSource {
+  photo: File;
+  labubuIds: number[];
+  parentGenerationId: string | null;
 }
 
-interface StatusResponse {
-  id: string;
-  status: "starting" | "processing" | "succeeded" | "failed" | "canceled";
-  output?: string | string[];
-  error?: string;
-  progress: number;
-  estimated_time: number;
-  step?: number;
-  total_steps?: number;
+// A pose picked for a doll may not exist for a keychain - fall back to holding
+function resolvePose(poseId: PosePresetId, labubuId: number | null): PosePresetId {
+  const labubuType = LABUBU_OPTIONS.find((l) => l.id === labubuId)?.type;
+  return labubuType && !isPoseAvailable(poseId, labubuType)
+    ? DEFAULT_POSE
+    : poseId;
 }
 
 export default function LabubufyApp() {
@@ -48,24 +71,30 @@ export default function LabubufyApp() {
     isLoading,
     initialize,
     refreshCredits,
-    spendCredit,
-    refundCredit,
   } = useUserStore();
 
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [selectedLabubu, setSelectedLabubu] = useState<number | null>(null);
+  const [selectedLabubus, setSelectedLabubus] = useState<number[]>([]);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>("single");
+  const [selectedPose, setSelectedPose] = useState<PosePresetId>(DEFAULT_POSE);
+  const [selectedStyle, setSelectedStyle] =
+    useState<StylePresetId>(DEFAULT_STYLE);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [generatedBlob, setGeneratedBlob] = useState<Blob | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [generationProgress, setGenerationProgress] = useState(0);
-  const [estimatedTime, setEstimatedTime] = useState<number>(0);
-  const [generationStatus, setGenerationStatus] = useState<string>("");
-  const [error, setError] = useState<string | null>(null);
-  const [showHistory, setShowHistory] = useState(false);
-  const [currentPredictionId, setCurrentPredictionId] = useState<string | null>(
+  const [numOutputs, setNumOutputs] = useState(1);
+  const [outputOptions, setOutputOptions] = useState<OutputOptions>(
+    DEFAULT_OUTPUT_OPTIONS
+  );
+  const [extraPrompt, setExtraPrompt] = useState("");
+  const [variants, setVariants] = useState<ResultVariant[]>([]);
+  const [selectedVariant, setSelectedVariant] = useState(0);
+  // Last finished generation for this photo - generating again links to it
+  const [parentGenerationId, setParentGenerationId] = useState<string | null>(
     null
   );
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const [isTestPhoto, setIsTestPhoto] = useState(false);
   const [showInsufficientCreditsModal, setShowInsufficientCreditsModal] =
     useState(false);
@@ -80,39 +109,21 @@ export default function LabubufyApp() {
 
   // Derived state
   const isAnonymous = user?.is_anonymous ?? true;
-
-  // Polling state - use refs to persist across renders
-  const pollingIntervalRef = React.useRef<NodeJS.Timeout | null>(null);
-  const pollingTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
-
-  // Handle credit refund
-  const handleRefundCredit = React.useCallback(
-    async (predictionId: string) => {
-      try {
-        console.log(`💰 Refunding credit for prediction: ${predictionId}`);
-        await refundCredit(predictionId);
-        console.log(`✅ Credit refunded. New balance: ${userCredits}`);
-      } catch (error) {
-        console.error("Failed to refund credit:", error);
-        // Don't show error to user for refund failures
-      }
-    },
-    [refundCredit, userCredits]
-  );
-
-  const stopPolling = React.useCallback((predictionId: string) => {
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
-
-    if (pollingTimeoutRef.current) {
-      clearTimeout(pollingTimeoutRef.current);
-      pollingTimeoutRef.current = null;
-    }
-
-    console.log(`🛑 Stopped polling for prediction: ${predictionId}`);
-  }, []);
+  // The main (held) Labubu - history, filenames and test photos use this one
+  const selectedLabubu = selectedLabubus[0] ?? null;
+  const mainLabubuType =
+    LABUBU_OPTIONS.find((l) => l.id === selectedLabubu)?.type ?? null;
+  const pose = resolvePose(selectedPose, selectedLabubu);
+  // "Try all" with one Labubu picked is just a normal generation
+  const isBatch =
+    selectionMode === "batch" && !isTestPhoto && selectedLabubus.length > 1;
+  // Test photos are simulated as a single image; a batch is one image per Labubu
+  const generationCost = isTestPhoto
+    ? 1
+    : (isBatch ? selectedLabubus.length : numOutputs) *
+      AI_CONFIG.CREDITS_PER_OUTPUT;
+  // Batch results are told apart by Labubu rather than by number
+  const isBatchResult = new Set(variants.map((v) => v.labubuId)).size > 1;
 
   // Initialize user store on mount
   React.useEffect(() => {
@@ -121,15 +132,6 @@ export default function LabubufyApp() {
     }
   }, [isInitialized, isLoading, initialize]);
 
-  // Cleanup on component unmount
-  React.useEffect(() => {
-    return () => {
-      if (currentPredictionId) {
-        stopPolling(currentPredictionId);
-      }
-    };
-  }, [currentPredictionId, stopPolling]);
-
   // Check for successful payment and show save account modal
   // Use ref to prevent multiple executions
   const hasProcessedPaymentRef = React.useRef(false);
@@ -157,6 +159,7 @@ export default function LabubufyApp() {
     setUploadedFile(file);
     setUploadedImage(previewUrl);
     setIsTestPhoto(false);
+    setParentGenerationId(null);
     setError(null);
   };
 
@@ -165,8 +168,10 @@ export default function LabubufyApp() {
     setUploadedImage(null);
     setGeneratedImage(null);
     setGeneratedBlob(null);
-    setSelectedLabubu(null);
+    setVariants([]);
+    setSelectedLabubus([]);
     setIsTestPhoto(false);
+    setParentGenerationId(null);
   };
 
   const handleUploadError = (errorMessage: string) => {
@@ -177,7 +182,12 @@ export default function LabubufyApp() {
     setUploadedImage(originalImage);
     setGeneratedImage(null);
     setGeneratedBlob(null);
+    setVariants([]);
+    // Test photos are pre-rendered with a single Labubu
+    setSelectedLabubus((ids) => ids.slice(0, 1));
+    setSelectionMode("single");
     setIsTestPhoto(true);
+    setParentGenerationId(null);
     setError(null);
   };
 
@@ -196,359 +206,149 @@ export default function LabubufyApp() {
     await refreshCredits();
   };
 
-  const startPolling = React.useCallback(
-    (predictionId: string) => {
-      console.log(`🚀 Starting polling for prediction: ${predictionId}`);
-
-      const checkStatus = async () => {
-        try {
-          console.log(`📡 Checking status for prediction: ${predictionId}`);
-          const response = await fetch(`/api/status/${predictionId}`);
-
-          if (!response.ok) {
-            throw new Error(`Status check failed: ${response.status}`);
-          }
-
-          const status: StatusResponse = await response.json();
-          console.log(`📊 Status:`, status);
-
-          // Update progress
-          setGenerationProgress(status.progress);
-          setEstimatedTime(status.estimated_time || 0);
-
-          // Update status message
-          if (status.status === "starting") {
-            setGenerationStatus("🚀 Getting ready to create magic...");
-          } else if (status.status === "processing") {
-            if (status.progress < 20) {
-              setGenerationStatus("🎨 AI is analyzing your photo...");
-            } else if (status.progress < 50) {
-              setGenerationStatus("✨ Blending you with your Labubu...");
-            } else if (status.progress < 80) {
-              setGenerationStatus("🎭 Adding the finishing touches...");
-            } else {
-              setGenerationStatus("🌟 Almost ready to reveal your photo...");
-            }
-          } else {
-            setGenerationStatus(status.status || "processing");
-          }
-
-          // Handle completion
-          if (status.status === "succeeded") {
-            console.log(`✅ Generation completed successfully!`);
-
-            // Clear timeout since we succeeded
-            if (pollingTimeoutRef.current) {
-              clearTimeout(pollingTimeoutRef.current);
-              pollingTimeoutRef.current = null;
-            }
-
-            const imageUrl = Array.isArray(status.output)
-              ? status.output[0]
-              : status.output;
-
-            if (!imageUrl) {
-              throw new Error("No image URL in completed result");
-            }
-
-            // Download the final image
-            const imageResponse = await fetch(imageUrl);
-            if (!imageResponse.ok) {
-              throw new Error(
-                `Failed to download image: ${imageResponse.status}`
-              );
-            }
-
-            const blob = await imageResponse.blob();
-
-            // Convert blob to data URL for display
-            const reader = new FileReader();
-            reader.onload = () => {
-              const dataUrl = reader.result as string;
-              setGeneratedImage(dataUrl);
-            };
-            reader.readAsDataURL(blob);
-
-            setGeneratedBlob(blob);
-
-            // Save to history
-            if (uploadedFile && selectedLabubu !== null) {
-              await imageStorage.saveImage(uploadedFile, blob, selectedLabubu);
-            }
-
-            // Reset generation state
-            setIsGenerating(false);
-            setGenerationProgress(0);
-            setEstimatedTime(0);
-            setGenerationStatus("");
-            setCurrentPredictionId(null);
-            stopPolling(predictionId);
-          } else if (status.status === "failed") {
-            console.error(`❌ Generation failed:`, status.error);
-
-            // Refund the credit
-            await handleRefundCredit(predictionId);
-
-            throw new Error(status.error || "Generation failed");
-          } else if (
-            status.status === "processing" ||
-            status.status === "starting"
-          ) {
-            console.log(`⏳ Still processing... Progress: ${status.progress}%`);
-          }
-        } catch (err) {
-          console.error("❌ Polling error:", err);
-
-          // Clear timeout on error
-          if (pollingTimeoutRef.current) {
-            clearTimeout(pollingTimeoutRef.current);
-            pollingTimeoutRef.current = null;
-          }
-
-          // Don't show error for network issues - just log and continue polling
-          if (
-            err instanceof Error &&
-            (err.message.includes("network") ||
-              err.message.includes("fetch") ||
-              err.message.includes("Failed to fetch"))
-          ) {
-            console.warn("Network error during status check, will retry...");
-            return; // Continue polling
-          }
-
-          // For other errors, show error and stop
-          const appError = errorHandler.parseError(err);
-          setError(errorHandler.getUserMessage(appError));
-          setIsGenerating(false);
-          setGenerationProgress(0);
-          setEstimatedTime(0);
-          setGenerationStatus("");
-          setCurrentPredictionId(null);
-          stopPolling(predictionId);
-        }
-      };
-
-      // Start polling immediately, then every 2 seconds
-      checkStatus();
-      pollingIntervalRef.current = setInterval(checkStatus, 2000);
-
-      // Set timeout to prevent infinite polling (3 minutes for Nano Banana Pro)
-      pollingTimeoutRef.current = setTimeout(() => {
-        if (pollingIntervalRef.current) {
-          console.log(`⏰ Polling timeout reached for ${predictionId}`);
-          stopPolling(predictionId);
-
-          // Refund credit on timeout
-          handleRefundCredit(predictionId).catch(console.error);
-
-          setError(
-            "Generation is taking longer than expected. Your credit has been refunded - please try again."
-          );
-          setIsGenerating(false);
-          setGenerationProgress(0);
-          setEstimatedTime(0);
-          setGenerationStatus("");
-          setCurrentPredictionId(null);
-        }
-      }, 180000); // 3 minutes - increased for Nano Banana Pro
-    },
-    [stopPolling, handleRefundCredit, uploadedFile, selectedLabubu]
-  );
+  const showResult = ({ variants, generationId }: GenerationResult) => {
+    setVariants(variants);
+    setSelectedVariant(0);
+    setGeneratedImage(variants[0].dataUrl);
+    setGeneratedBlob(variants[0].blob);
+    setParentGenerationId(generationId);
+  };
 
-  // Main generation handler
-  const handleGenerate = async () => {
-    if (!uploadedImage || selectedLabubu === null) return;
+  // Put the photo and Labubu of a generation resumed after a reload back on screen
+  const handleResume = async (
+    generation: ActiveGeneration,
+    photo: Blob | null
+  ) => {
+    if (photo) {
+      const file = new File([photo], "original.jpg", {
+        type: photo.type || "image/jpeg",
+      });
+      setUploadedFile(file);
+      setUploadedImage(await imageUtils.blobToBase64(file));
+    }
+    if (generation.kind === "batch") {
+      setSelectionMode("batch");
+    } else {
+      const labubuIds = generation.labubuIds ?? [generation.labubuId];
+      setSelectedLabubus(labubuIds);
+      setSelectionMode(labubuIds.length > 1 ? "mix" : "single");
+    }
+  };
 
-    // Check if user has credits
-    if (!user || userCredits < 1) {
-      console.log("❌ Insufficient credits");
-      setShowInsufficientCreditsModal(true);
+  const {
+    isGenerating,
+    progress: generationProgress,
+    estimatedTime,
+    status: generationStatus,
+    queuePosition,
+    generate,
+    generateTestPhoto,
+    cancel: handleCancelGeneration,
+  } = useGeneration({
+    onStart: () => {
+      setError(null);
+      setGeneratedImage(null);
+      setGeneratedBlob(null);
+      setVariants([]);
+    },
+    onComplete: showResult,
+    onError: setError,
+    onInsufficientCredits: () => setShowInsufficientCreditsModal(true),
+    onResume: handleResume,
+  });
+
+  // Main generation handler. A source overrides the editor state (regenerating
+  // from history before that state has updated).
+  const handleGenerate = async (source?: GenerationSource) => {
+    const labubuIds = source?.labubuIds ?? selectedLabubus;
+    if ((!uploadedImage && !source) || labubuIds.length === 0) return;
+
+    if (isTestPhoto && !source && uploadedImage) {
+      await generateTestPhoto(uploadedImage, labubuIds[0]);
       return;
     }
 
-    console.log(
-      `✅ User has ${userCredits} credits, proceeding with generation`
-    );
+    const photo = source?.photo ?? uploadedFile;
+    if (!photo) return;
+
+    // Regenerating from history is always a single generation
+    const batch = isBatch && !source;
+    await generate({
+      photo,
+      labubuIds,
+      pose: batch ? selectedPose : resolvePose(selectedPose, labubuIds[0]),
+      style: selectedStyle,
+      numOutputs,
+      extraPrompt: extraPrompt.trim() || undefined,
+      output: outputOptions,
+      parentGenerationId: source
+        ? source.parentGenerationId
+        : parentGenerationId,
+      batch,
+    });
+  };
 
-    setIsGenerating(true);
-    setGenerationProgress(0);
-    setEstimatedTime(45);
-    setGenerationStatus("Initializing...");
-    setError(null);
+  // Load a history item's original photo and Labubus back into the editor.
+  // Regenerate starts right away; remix waits so the Labubus can be swapped.
+  const handleHistoryRegenerate = async (imageId: string, startNow: boolean) => {
+    const stored = await imageStorage.getImage(imageId);
+    if (!stored) return;
+
+    const photo = new File([stored.originalImage], "original.jpg", {
+      type: stored.originalImage.type || "image/jpeg",
+    });
+    const parentId = stored.generationId ?? null;
+    // Older history items only know their main Labubu
+    const labubuIds = stored.labubuIds ?? [stored.labubuId];
+
+    setShowHistory(false);
+    setUploadedFile(photo);
+    setUploadedImage(await imageUtils.blobToBase64(photo));
+    setIsTestPhoto(false);
     setGeneratedImage(null);
     setGeneratedBlob(null);
+    setVariants([]);
+    setSelectedLabubus(labubuIds);
+    setSelectionMode(labubuIds.length > 1 ? "mix" : "single");
+    setParentGenerationId(parentId);
+    setError(null);
 
-    try {
-      // Test photo simulation
-      if (isTestPhoto) {
-        const testPhotoNumber = uploadedImage.match(/original(\d+)/)?.[1];
-        console.log(`🧪 Test mode: Using test photo ${testPhotoNumber}`);
-
-        // Generate a unique prediction ID for test photos
-        const testPredictionId = `test_${Date.now()}_${Math.random()
-          .toString(36)
-          .substring(7)}`;
-
-        // Spend credit for test photo generation
-        try {
-          console.log(
-            `💰 Spending 1 credit for test photo: ${testPredictionId}`
-          );
-          const success = await spendCredit(testPredictionId);
-          if (!success) {
-            console.error("Failed to spend credit for test photo");
-            setError("Failed to spend credit. Please try again.");
-            setIsGenerating(false);
-            return;
-          } else {
-            console.log(
-              `✅ Credit spent for test photo. New balance: ${userCredits}`
-            );
-          }
-        } catch (spendError) {
-          console.error("Failed to spend credit for test photo:", spendError);
-          setError("Failed to spend credit. Please try again.");
-          setIsGenerating(false);
-          return;
-        }
-
-        const messages = [
-          "🎨 AI is analyzing your photo...",
-          "✨ Blending you with your Labubu...",
-          "🎭 Adding the finishing touches...",
-          "🌟 Almost ready to reveal your photo...",
-        ];
-        let messageIndex = 0;
-
-        const progressInterval = setInterval(() => {
-          setGenerationProgress((prev) => Math.min(prev + 20, 100));
-        }, 1000);
-
-        const messageInterval = setInterval(() => {
-          if (messageIndex < messages.length) {
-            setGenerationStatus(messages[messageIndex]);
-            messageIndex++;
-          }
-        }, 1250);
-
-        setTimeout(() => {
-          clearInterval(progressInterval);
-          clearInterval(messageInterval);
-          setGenerationProgress(100);
-          setGenerationStatus("✅ Test generation complete!");
-
-          setTimeout(() => {
-            const generatedImageUrl = `/test-photos/generated${testPhotoNumber}_labubu${selectedLabubu}.svg`;
-            setGeneratedImage(generatedImageUrl);
-
-            fetch(generatedImageUrl)
-              .then((response) => response.blob())
-              .then((blob) => setGeneratedBlob(blob))
-              .catch(console.error);
-
-            setIsGenerating(false);
-            setGenerationProgress(0);
-            setEstimatedTime(0);
-            setGenerationStatus("");
-          }, 200);
-        }, 5000);
-
-        return;
-      }
-
-      // Real photo generation
-      if (!uploadedFile) {
-        throw new Error("No file uploaded for generation");
-      }
-
-      // Convert file to base64
-      const imageBase64 = await imageUtils.fileToBase64(uploadedFile);
-      console.log(`📷 Image converted to base64`);
-
-      // Start generation and spend credit
-      const response = await fetch("/api/generate", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          image: imageBase64,
-          labubu_id: selectedLabubu,
-        } as GenerationRequest),
+    if (startNow) {
+      await handleGenerate({
+        photo,
+        labubuIds,
+        parentGenerationId: parentId,
       });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.error || `HTTP ${response.status}: ${response.statusText}`
-        );
-      }
-
-      const result = await response.json();
-
-      if (!result.success) {
-        throw new Error(result.error || "Generation failed");
-      }
-
-      console.log(`✅ Generation started:`, result);
-      const predictionId = result.prediction_id;
-      setCurrentPredictionId(predictionId);
-
-      // NOW spend the credit AFTER successful generation start
-      try {
-        console.log(`💰 Spending 1 credit for prediction: ${predictionId}`);
-        const success = await spendCredit(predictionId);
-        if (!success) {
-          console.error("Failed to spend credit");
-        } else {
-          console.log(`✅ Credit spent. New balance: ${userCredits}`);
-        }
-      } catch (spendError) {
-        console.error("Failed to spend credit:", spendError);
-        // If credit spending fails, we should still continue with generation
-        // The webhook will handle it or user can contact support
-      }
-
-      // Start polling for status
-      startPolling(predictionId);
-    } catch (err) {
-      console.error("❌ Generation error:", err);
-      const appError = errorHandler.parseError(err);
-      setError(errorHandler.getUserMessage(appError));
-      setIsGenerating(false);
-      setGenerationProgress(0);
-      setEstimatedTime(0);
-      setGenerationStatus("");
-      setCurrentPredictionId(null);
     }
   };
 
-  // Cancel generation
-  const handleCancelGeneration = () => {
-    console.log(`🛑 User cancelled generation`);
-    if (currentPredictionId) {
-      // Refund the credit when user cancels
-      handleRefundCredit(currentPredictionId).catch(console.error);
-      stopPolling(currentPredictionId);
-    }
-    setIsGenerating(false);
-    setGenerationProgress(0);
-    setEstimatedTime(0);
-    setGenerationStatus("");
-    setCurrentPredictionId(null);
+  // Show another variant - download and share use the selected one
+  const handleSelectVariant = (index: number) => {
+    setSelectedVariant(index);
+    setGeneratedImage(variants[index].dataUrl);
+    setGeneratedBlob(variants[index].blob);
   };
 
+  // The Labubu in the image on screen - test photos have no variants
+  const resultLabubu = variants[selectedVariant]?.labubuId ?? selectedLabubu;
+
   const handleDownload = () => {
-    if (!generatedBlob || selectedLabubu === null) return;
-    const filename = formatUtils.generateFilename(selectedLabubu);
+    if (!generatedBlob || resultLabubu === null) return;
+    const filename = formatUtils.generateFilename(
+      resultLabubu,
+      getOutputExtension(generatedBlob.type)
+    );
     urlUtils.downloadBlob(generatedBlob, filename);
   };
 
   const handleShare = async () => {
-    if (!generatedBlob || selectedLabubu === null) return;
+    if (!generatedBlob || resultLabubu === null) return;
 
     try {
-      const filename = sharingService.generateShareFilename(selectedLabubu);
+      const filename = sharingService.generateShareFilename(
+        resultLabubu,
+        getOutputExtension(generatedBlob.type)
+      );
       const result = await sharingService.shareImage(generatedBlob, filename, {
         title: "My Labubu Photo",
         text: "Check out my awesome Labubu photo created with Labubufy!",
@@ -696,16 +496,102 @@ export default function LabubufyApp() {
             <div className="w-full sm:w-1/2 p-3 sm:p-6 bg-zinc-50 flex flex-col overflow-y-auto">
               <div className="w-full h-fit max-w-sm mx-auto flex-1 flex flex-col justify-center py-2">
                 <LabubuSelection
-                  selectedLabubu={selectedLabubu}
-                  onSelect={setSelectedLabubu}
+                  selectedLabubus={selectedLabubus}
+                  onChange={setSelectedLabubus}
+                  mode={selectionMode}
+                  onModeChange={isTestPhoto ? undefined : setSelectionMode}
                   className="mb-6 flex-shrink-0"
                 />
 
+                {/* Pose preset */}
+                {!isTestPhoto && (
+                  <PoseSelection
+                    selectedPose={pose}
+                    onSelect={setSelectedPose}
+                    labubuType={mainLabubuType}
+                    disabled={isGenerating}
+                    className="mb-4 flex-shrink-0"
+                  />
+                )}
+
+                {/* Rendering style */}
+                {!isTestPhoto && (
+                  <StyleSelection
+                    selectedStyle={selectedStyle}
+                    onSelect={setSelectedStyle}
+                    disabled={isGenerating}
+                    className="mb-4 flex-shrink-0"
+                  />
+                )}
+
+                {/* Number of variants - a batch makes one per Labubu */}
+                {!isTestPhoto && !isBatch && (
+                  <div className="flex-shrink-0 flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-700">
+                      Variations
+                    </span>
+                    <div className="flex gap-1">
+                      {Array.from(
+                        { length: AI_CONFIG.MAX_OUTPUTS },
+                        (_, index) => index + 1
+                      ).map((count) => (
+                        <button
+                          key={count}
+                          onClick={() => setNumOutputs(count)}
+                          disabled={isGenerating}
+                          className={`w-9 h-9 rounded-full text-sm font-medium transition-colors ${
+                            numOutputs === count
+                              ? "bg-violet-600 text-white"
+                              : "bg-zinc-200 text-gray-700 hover:bg-zinc-300"
+                          }`}
+                        >
+                          {count}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Shape, file format and upscaling of the result */}
+                {!isTestPhoto && (
+                  <OutputOptionsSelection
+                    options={outputOptions}
+                    onChange={setOutputOptions}
+                    disabled={isGenerating}
+                    className="mt-4 flex-shrink-0"
+                  />
+                )}
+
+                {/* Optional prompt addition */}
+                {!isTestPhoto && (
+                  <div className="flex-shrink-0 mt-4">
+                    <label
+                      htmlFor="extra-prompt"
+                      className="text-sm font-medium text-gray-700"
+                    >
+                      Extra instruction{" "}
+                      <span className="font-normal text-gray-500">
+                        (optional)
+                      </span>
+                    </label>
+                    <input
+                      id="extra-prompt"
+                      type="text"
+                      value={extraPrompt}
+                      onChange={(e) => setExtraPrompt(e.target.value)}
+                      maxLength={AI_CONFIG.MAX_EXTRA_PROMPT_LENGTH}
+                      disabled={isGenerating}
+                      placeholder="e.g. make it golden hour"
+                      className="mt-1 w-full rounded-lg border-2 border-black px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-violet-600 disabled:opacity-40"
+                    />
+                  </div>
+                )}
+
                 {/* Generate button */}
                 <div className="flex-shrink-0 mt-4">
                   <Button
                     className="w-full bg-violet-600 hover:bg-violet-700 text-white py-3 sm:py-5 text-sm sm:text-xl font-medium font-zubilo-black disabled:opacity-100 disabled:ring-2 disabled:ring-violet-600 disabled:ring-offset-2"
-                    onClick={handleGenerate}
+                    onClick={() => handleGenerate()}
                     disabled={
                       !uploadedImage || selectedLabubu === null || isGenerating
                     }
@@ -718,7 +604,10 @@ export default function LabubufyApp() {
                     uploadedImage &&
                     selectedLabubu !== null && (
                       <div className="text-center mt-2 text-sm text-gray-600">
-                        <span className="font-medium">Cost: 1 credit</span>
+                        <span className="font-medium">
+                          Cost: {generationCost} credit
+                          {generationCost === 1 ? "" : "s"}
+                        </span>
                         {userCredits > 0 ? (
                           <span className="ml-2 text-green-600">
                             • {userCredits} credits available
@@ -742,6 +631,7 @@ export default function LabubufyApp() {
                     progress={generationProgress}
                     estimatedTime={estimatedTime}
                     status={generationStatus}
+                    queuePosition={queuePosition}
                     onCancel={handleCancelGeneration}
                   />
                 ) : generatedImage ? (
@@ -764,6 +654,39 @@ export default function LabubufyApp() {
                 )}
               </div>
 
+              {/* Variant picker */}
+              {variants.length > 1 && !isGenerating && (
+                <div className="flex gap-2 mt-4 justify-center">
+                  {variants.map((variant, index) => (
+                    <button
+                      key={index}
+                      onClick={() => handleSelectVariant(index)}
+                      title={
+                        isBatchResult
+                          ? getLabubuName(variant.labubuId)
+                          : `Variation ${index + 1}`
+                      }
+                      className={`w-16 h-16 rounded-lg overflow-hidden border-2 transition-all ${
+                        selectedVariant === index
+                          ? "border-violet-600 scale-105"
+                          : "border-transparent opacity-70 hover:opacity-100"
+                      }`}
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={variant.dataUrl}
+                        alt={
+                          isBatchResult
+                            ? getLabubuName(variant.labubuId)
+                            : `Variation ${index + 1}`
+                        }
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* Action Buttons */}
               {generatedImage && !isGenerating && (
                 <div className="flex gap-2 mt-4">
@@ -779,6 +702,16 @@ export default function LabubufyApp() {
                   >
                     Share
                   </Button>
+                  {/* Same photo again, with whichever Labubus are selected now */}
+                  {!isTestPhoto && (
+                    <Button
+                      onClick={() => handleGenerate()}
+                      disabled={selectedLabubu === null}
+                      className="flex-1 bg-violet-600 hover:bg-violet-700 text-white"
+                    >
+                      Regenerate
+                    </Button>
+                  )}
                 </div>
               )}
 
@@ -800,6 +733,8 @@ export default function LabubufyApp() {
             <HistoryGallery
               onClose={() => setShowHistory(false)}
               isOpen={showHistory}
+              onRegenerate={(imageId) => handleHistoryRegenerate(imageId, true)}
+              onRemix={(imageId) => handleHistoryRegenerate(imageId, false)}
             />
           </div>
         </div>
@@ -92,7 +92,8 @@ export function HelpModal({ isOpen, onClose }: HelpModalProps) {
                 </p>
                 <p className="text-violet-700">
                   New users get <strong>3 free credits</strong> to try out
-                  Labubufy!
+                  Labubufy! Photos made with free credits carry a small
+                  Labubufy logo - purchased credits give clean photos.
                 </p>
               </div>
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
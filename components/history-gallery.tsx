@@ -8,7 +8,9 @@ import {
   Trash2, 
   Share2, 
   Calendar,
-  AlertTriangle
+  AlertTriangle,
+  RefreshCw,
+  Shuffle
 } from "lucide-react";
 import { imageStorage, type ImageMetadata } from "@/lib/storage";
 import { formatUtils, urlUtils, deviceUtils } from "@/lib/utils";
@@ -17,9 +19,34 @@ import { HistoryGallerySkeleton, EmptyState } from "@/components/loading-states"
 interface HistoryGalleryProps {
   isOpen: boolean;
   onClose: () => void;
+  // Re-run a photo's original image and Labubu (charges credits)
+  onRegenerate?: (imageId: string) => void;
+  // Load it into the editor to pick a different Labubu first
+  onRemix?: (imageId: string) => void;
 }
 
-export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
+// A single photo, or the results of one "try all" batch shown together
+type HistoryGroup =
+  | { batchId: null; images: [ImageMetadata] }
+  | { batchId: string; images: ImageMetadata[] };
+
+// Batch results are saved back to back, so grouping neighbours is enough
+function groupByBatch(images: ImageMetadata[]): HistoryGroup[] {
+  const groups: HistoryGroup[] = [];
+  for (const image of images) {
+    const last = groups[groups.length - 1];
+    if (image.batchId && last?.batchId === image.batchId) {
+      last.images.push(image);
+    } else if (image.batchId) {
+      groups.push({ batchId: image.batchId, images: [image] });
+    } else {
+      groups.push({ batchId: null, images: [image] });
+    }
+  }
+  return groups;
+}
+
+export function HistoryGallery({ isOpen, onClose, onRegenerate, onRemix }: HistoryGalleryProps) {
   const [images, setImages] = useState<ImageMetadata[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
@@ -145,16 +172,36 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
             />
           ) : (
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 p-4">
-              {images.map((image) => (
-                <HistoryImageCard
-                  key={image.id}
-                  image={image}
-                  onSelect={() => setSelectedImage(image.id)}
-                  onDelete={() => setShowDeleteConfirm(image.id)}
-                  onDownload={() => handleDownload(image.id)}
-                  onShare={() => handleShare(image.id)}
-                />
-              ))}
+              {groupByBatch(images).map((group) => {
+                const cards = group.images.map((image) => (
+                  <HistoryImageCard
+                    key={image.id}
+                    image={image}
+                    onSelect={() => setSelectedImage(image.id)}
+                    onDelete={() => setShowDeleteConfirm(image.id)}
+                    onDownload={() => handleDownload(image.id)}
+                    onShare={() => handleShare(image.id)}
+                  />
+                ));
+
+                if (!group.batchId || group.images.length === 1) {
+                  return cards;
+                }
+
+                return (
+                  <div
+                    key={group.batchId}
+                    className="col-span-full rounded-lg border-2 border-violet-200 bg-violet-50 p-3"
+                  >
+                    <p className="text-sm font-medium text-violet-800 mb-3">
+                      Try-all set · {group.images.length} Labubus
+                    </p>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                      {cards}
+                    </div>
+                  </div>
+                );
+              })}
             </div>
           )}
         </div>
@@ -171,6 +218,8 @@ export function HistoryGallery({ isOpen, onClose }: HistoryGalleryProps) {
           }}
           onDownload={() => handleDownload(selectedImage)}
           onShare={() => handleShare(selectedImage)}
+          onRegenerate={onRegenerate && (() => onRegenerate(selectedImage))}
+          onRemix={onRemix && (() => onRemix(selectedImage))}
         />
       )}
 
@@ -262,9 +311,11 @@ interface ImageDetailModalProps {
   onDelete: () => void;
   onDownload: () => void;
   onShare: () => void;
+  onRegenerate?: () => void;
+  onRemix?: () => void;
 }
 
-function ImageDetailModal({ imageId, onClose, onDelete, onDownload, onShare }: ImageDetailModalProps) {
+function ImageDetailModal({ imageId, onClose, onDelete, onDownload, onShare, onRegenerate, onRemix }: ImageDetailModalProps) {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
 
@@ -329,6 +380,23 @@ function ImageDetailModal({ imageId, onClose, onDelete, onDownload, onShare }: I
               <Trash2 className="h-4 w-4" />
             </Button>
           </div>
+
+          {(onRegenerate || onRemix) && (
+            <div className="flex gap-2 mt-2">
+              {onRegenerate && (
+                <Button variant="outline" onClick={onRegenerate} className="flex-1">
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate
+                </Button>
+              )}
+              {onRemix && (
+                <Button variant="outline" onClick={onRemix} className="flex-1">
+                  <Shuffle className="h-4 w-4 mr-2" />
+                  Swap Labubu
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
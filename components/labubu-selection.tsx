@@ -2,26 +2,68 @@
 
 import React, { useState } from "react";
 import {
+  AI_CONFIG,
   LABUBU_DOLLS,
   LABUBU_KEYCHAINS,
   type LabubuOption,
 } from "@/lib/config";
 import { cn } from "@/lib/utils";
 
+// single: one Labubu; mix: several share one scene; batch: one photo per Labubu
+export type SelectionMode = "single" | "mix" | "batch";
+
+const MAX_SELECTED: Record<SelectionMode, number> = {
+  single: 1,
+  mix: AI_CONFIG.MAX_LABUBUS_PER_SCENE,
+  batch: AI_CONFIG.MAX_BATCH_SIZE,
+};
+
 interface LabubuSelectionProps {
-  selectedLabubu: number | null;
-  onSelect: (id: number) => void;
+  // In selection order - when mixing, the first one is held in the hands
+  selectedLabubus: number[];
+  onChange: (ids: number[]) => void;
+  mode?: SelectionMode;
+  // Without it only single selection is offered (e.g. for test photos)
+  onModeChange?: (mode: SelectionMode) => void;
   className?: string;
 }
 
 type TabType = "dolls" | "keychains";
 
 export function LabubuSelection({
-  selectedLabubu,
-  onSelect,
+  selectedLabubus,
+  onChange,
+  mode = "single",
+  onModeChange,
   className,
 }: LabubuSelectionProps) {
   const [activeTab, setActiveTab] = useState<TabType>("dolls");
+  const activeMode = onModeChange ? mode : "single";
+  const maxSelected = MAX_SELECTED[activeMode];
+
+  const handleSelect = (id: number) => {
+    if (activeMode === "single") {
+      onChange([id]);
+    } else if (selectedLabubus.includes(id)) {
+      onChange(selectedLabubus.filter((selected) => selected !== id));
+    } else if (selectedLabubus.length < maxSelected) {
+      onChange([...selectedLabubus, id]);
+    }
+  };
+
+  const changeMode = (nextMode: SelectionMode) => {
+    // Going back to one Labubu keeps only the main one
+    if (nextMode === "single" && selectedLabubus.length > 1) {
+      onChange(selectedLabubus.slice(0, 1));
+    }
+    onModeChange?.(nextMode);
+  };
+
+  // Number badges only matter when several share a scene
+  const getBadge = (id: number): number | undefined => {
+    const index = selectedLabubus.indexOf(id);
+    return activeMode === "mix" && index >= 0 ? index + 1 : undefined;
+  };
 
   const currentOptions =
     activeTab === "dolls" ? LABUBU_DOLLS : LABUBU_KEYCHAINS;
@@ -58,6 +100,32 @@ export function LabubuSelection({
             Babies
           </button>
         </div>
+
+        {onModeChange &&
+          (activeMode === "single" ? (
+            <div className="flex justify-center gap-3 text-sm">
+              <button
+                onClick={() => changeMode("mix")}
+                className="text-violet-700 hover:text-violet-900 underline"
+              >
+                Mix up to {MAX_SELECTED.mix} in one photo
+              </button>
+              <button
+                onClick={() => changeMode("batch")}
+                className="text-violet-700 hover:text-violet-900 underline"
+              >
+                Try up to {MAX_SELECTED.batch}, one photo each
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => changeMode("single")}
+              className="block mx-auto text-sm text-violet-700 hover:text-violet-900 underline"
+            >
+              {activeMode === "mix" ? "Mixing" : "Trying"}{" "}
+              {selectedLabubus.length}/{maxSelected} - back to one Labubu
+            </button>
+          ))}
       </div>
 
       {/* Content area */}
@@ -68,8 +136,9 @@ export function LabubuSelection({
             <div key={labubu.id} className="flex-shrink-0 w-24 h-24">
               <LabubuCard
                 labubu={labubu}
-                isSelected={selectedLabubu === labubu.id}
-                onSelect={() => onSelect(labubu.id)}
+                isSelected={selectedLabubus.includes(labubu.id)}
+                badge={getBadge(labubu.id)}
+                onSelect={() => handleSelect(labubu.id)}
               />
             </div>
           ))}
@@ -81,8 +150,9 @@ export function LabubuSelection({
             <LabubuCard
               key={labubu.id}
               labubu={labubu}
-              isSelected={selectedLabubu === labubu.id}
-              onSelect={() => onSelect(labubu.id)}
+              isSelected={selectedLabubus.includes(labubu.id)}
+              badge={getBadge(labubu.id)}
+              onSelect={() => handleSelect(labubu.id)}
             />
           ))}
         </div>
@@ -94,10 +164,12 @@ export function LabubuSelection({
 interface LabubuCardProps {
   labubu: LabubuOption;
   isSelected: boolean;
+  // Position in a multi-Labubu scene
+  badge?: number;
   onSelect: () => void;
 }
 
-function LabubuCard({ labubu, isSelected, onSelect }: LabubuCardProps) {
+function LabubuCard({ labubu, isSelected, badge, onSelect }: LabubuCardProps) {
   return (
     <div
       className={cn(
@@ -133,19 +205,23 @@ function LabubuCard({ labubu, isSelected, onSelect }: LabubuCardProps) {
       {/* Selection indicator */}
       {isSelected && (
         <div className="absolute -top-2 -right-2 w-6 h-6 bg-violet-600 rounded-full flex items-center justify-center">
-          <svg
-            className="w-4 h-4 text-white"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M5 13l4 4L19 7"
-            />
-          </svg>
+          {badge ? (
+            <span className="text-xs font-bold text-white">{badge}</span>
+          ) : (
+            <svg
+              className="w-4 h-4 text-white"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M5 13l4 4L19 7"
+              />
+            </svg>
+          )}
         </div>
       )}
 
@@ -63,6 +63,8 @@ interface GenerationProgressProps {
   progress?: number;
   estimatedTime?: number;
   status?: string;
+  // Set while the generation waits for a free slot (1 = next)
+  queuePosition?: number | null;
   onCancel?: () => void;
   className?: string;
 }
@@ -71,6 +73,7 @@ export function GenerationProgress({
   progress = 0,
   estimatedTime = 0,
   status = "",
+  queuePosition,
   onCancel,
   className,
 }: GenerationProgressProps) {
@@ -142,6 +145,13 @@ export function GenerationProgress({
           {!status && "💝 Great things take a little time!"}
         </p>
 
+        {queuePosition != null && (
+          <p className="text-sm font-medium text-purple-700 bg-purple-50 rounded-full px-4 py-1 inline-block">
+            🕒 You&apos;re #{queuePosition} in the queue - we&apos;ll start as
+            soon as a spot opens
+          </p>
+        )}
+
         {/* Enhanced progress bar with glow effect */}
         <div className="w-64 mx-auto h-3 bg-gray-200 rounded-full overflow-hidden shadow-inner">
           <div
@@ -0,0 +1,108 @@
+"use client";
+
+import React from "react";
+import {
+  ASPECT_RATIOS,
+  CONFIG,
+  OUTPUT_FORMATS,
+  type OutputOptions,
+} from "@/lib/config";
+import { cn } from "@/lib/utils";
+
+interface OutputOptionsSelectionProps {
+  options: OutputOptions;
+  onChange: (options: OutputOptions) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+function OptionButton({
+  isSelected,
+  onClick,
+  disabled,
+  title,
+  children,
+}: {
+  isSelected: boolean;
+  onClick: () => void;
+  disabled?: boolean;
+  title?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "px-3 py-1.5 rounded-full text-sm font-medium border-2 transition-all duration-200",
+        "focus:outline-none focus:ring-2 focus:ring-violet-600 focus:ring-offset-2",
+        "disabled:opacity-40 disabled:cursor-not-allowed",
+        isSelected
+          ? "bg-violet-600 border-violet-600 text-white"
+          : "bg-white border-black text-black hover:border-violet-600"
+      )}
+      aria-pressed={isSelected}
+      title={title}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function OutputOptionsSelection({
+  options,
+  onChange,
+  disabled,
+  className,
+}: OutputOptionsSelectionProps) {
+  return (
+    <div className={cn("w-full space-y-3", className)}>
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Shape</p>
+        <div className="flex flex-wrap gap-2">
+          {ASPECT_RATIOS.map((preset) => (
+            <OptionButton
+              key={preset.id}
+              isSelected={options.aspectRatio === preset.id}
+              onClick={() => onChange({ ...options, aspectRatio: preset.id })}
+              disabled={disabled}
+              title={preset.ratio ? `${preset.name} (${preset.id})` : preset.name}
+            >
+              {preset.name}
+              {preset.ratio && (
+                <span className="ml-1 opacity-70">{preset.id}</span>
+              )}
+            </OptionButton>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Format</p>
+          <div className="flex flex-wrap gap-2">
+            {OUTPUT_FORMATS.map((format) => (
+              <OptionButton
+                key={format.id}
+                isSelected={options.format === format.id}
+                onClick={() => onChange({ ...options, format: format.id })}
+                disabled={disabled}
+              >
+                {format.name}
+              </OptionButton>
+            ))}
+          </div>
+        </div>
+
+        <OptionButton
+          isSelected={options.upscale}
+          onClick={() => onChange({ ...options, upscale: !options.upscale })}
+          disabled={disabled}
+          title={`Deliver at ${CONFIG.UPSCALE_FACTOR}x resolution`}
+        >
+          🔍 Upscale {CONFIG.UPSCALE_FACTOR}x
+        </OptionButton>
+      </div>
+    </div>
+  );
+}
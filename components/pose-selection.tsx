@@ -0,0 +1,65 @@
+"use client";
+
+import React from "react";
+import {
+  POSE_PRESETS,
+  isPoseAvailable,
+  type LabubuOption,
+  type PosePresetId,
+} from "@/lib/config";
+import { cn } from "@/lib/utils";
+
+interface PoseSelectionProps {
+  selectedPose: PosePresetId;
+  onSelect: (pose: PosePresetId) => void;
+  // Type of the main Labubu - presets without a placement for it are disabled
+  labubuType: LabubuOption["type"] | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function PoseSelection({
+  selectedPose,
+  onSelect,
+  labubuType,
+  disabled,
+  className,
+}: PoseSelectionProps) {
+  return (
+    <div className={cn("w-full", className)}>
+      <p className="text-sm font-medium text-gray-700 mb-2">Pose</p>
+      <div className="flex flex-wrap gap-2">
+        {POSE_PRESETS.map((preset) => {
+          const isAvailable =
+            !labubuType || isPoseAvailable(preset.id, labubuType);
+          const isSelected = selectedPose === preset.id;
+
+          return (
+            <button
+              key={preset.id}
+              onClick={() => onSelect(preset.id)}
+              disabled={disabled || !isAvailable}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-sm font-medium border-2 transition-all duration-200",
+                "focus:outline-none focus:ring-2 focus:ring-violet-600 focus:ring-offset-2",
+                "disabled:opacity-40 disabled:cursor-not-allowed",
+                isSelected
+                  ? "bg-violet-600 border-violet-600 text-white"
+                  : "bg-white border-black text-black hover:border-violet-600"
+              )}
+              aria-pressed={isSelected}
+              title={
+                isAvailable
+                  ? preset.name
+                  : `${preset.name} isn't available for this Labubu`
+              }
+            >
+              <span className="mr-1">{preset.emoji}</span>
+              {preset.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
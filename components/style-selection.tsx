@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { STYLE_PRESETS, type StylePresetId } from "@/lib/config";
+import { cn } from "@/lib/utils";
+
+interface StyleSelectionProps {
+  selectedStyle: StylePresetId;
+  onSelect: (style: StylePresetId) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function StyleSelection({
+  selectedStyle,
+  onSelect,
+  disabled,
+  className,
+}: StyleSelectionProps) {
+  return (
+    <div className={cn("w-full", className)}>
+      <p className="text-sm font-medium text-gray-700 mb-2">Style</p>
+      <div className="flex flex-wrap gap-2">
+        {STYLE_PRESETS.map((preset) => {
+          const isSelected = selectedStyle === preset.id;
+
+          return (
+            <button
+              key={preset.id}
+              onClick={() => onSelect(preset.id)}
+              disabled={disabled}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-sm font-medium border-2 transition-all duration-200",
+                "focus:outline-none focus:ring-2 focus:ring-violet-600 focus:ring-offset-2",
+                "disabled:opacity-40 disabled:cursor-not-allowed",
+                isSelected
+                  ? "bg-violet-600 border-violet-600 text-white"
+                  : "bg-white border-black text-black hover:border-violet-600"
+              )}
+              aria-pressed={isSelected}
+              title={preset.name}
+            >
+              <span className="mr-1">{preset.emoji}</span>
+              {preset.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+// lib/api/authenticate.ts
+// Bearer token verification for API routes
+import { NextRequest } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+
+/**
+ * Resolve the Supabase auth user from the request's `Authorization: Bearer` header.
+ * Returns null when the header is missing or the token is invalid.
+ */
+export async function getAuthenticatedUser(
+  request: NextRequest
+): Promise<User | null> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.substring(7);
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return null;
+  }
+
+  return user;
+}
@@ -0,0 +1,78 @@
+// lib/api/stream-tokens.ts
+// Single-use tokens that authenticate one status stream. EventSource can't
+// send an Authorization header, so the client trades its bearer token for one
+// of these and puts that in the stream URL instead.
+import { createHash, randomBytes } from "crypto";
+import { supabaseAdmin } from "@/lib/supabase";
+import { CONFIG } from "@/lib/config";
+
+export interface StreamTokenScope {
+  userId: string;
+  generationId: string;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export class StreamTokenService {
+  private get db() {
+    if (!supabaseAdmin) {
+      throw new Error("Supabase admin client is not configured");
+    }
+    return supabaseAdmin;
+  }
+
+  /**
+   * Issue a token that opens the stream of one generation, once, within
+   * CONFIG.STREAM_TOKEN_EXPIRY seconds
+   */
+  async issue(scope: StreamTokenScope): Promise<string> {
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = new Date(Date.now() + CONFIG.STREAM_TOKEN_EXPIRY * 1000);
+
+    const { error } = await this.db.from("stream_tokens").insert({
+      token_hash: hashToken(token),
+      user_id: scope.userId,
+      generation_id: scope.generationId,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to issue stream token: ${error.message}`);
+    }
+
+    // Housekeeping - unused tokens are never consumed
+    await this.db
+      .from("stream_tokens")
+      .delete()
+      .lt("expires_at", new Date().toISOString());
+
+    return token;
+  }
+
+  /**
+   * Use up a token. Returns what it was issued for, or null when it is
+   * unknown, expired or already used.
+   */
+  async consume(token: string): Promise<StreamTokenScope | null> {
+    // Deleting is the claim: only one request gets the row back
+    const { data, error } = await this.db
+      .from("stream_tokens")
+      .delete()
+      .eq("token_hash", hashToken(token))
+      .gt("expires_at", new Date().toISOString())
+      .select("user_id, generation_id")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to consume stream token: ${error.message}`);
+    }
+
+    return data
+      ? { userId: data.user_id, generationId: data.generation_id }
+      : null;
+  }
+}
+
+export const streamTokens = new StreamTokenService();
@@ -4,6 +4,10 @@ export const CONFIG = {
   MAX_FILE_SIZE: parseInt(process.env.NEXT_PUBLIC_MAX_FILE_SIZE || "10485760"), // 10MB
   SUPPORTED_FORMATS: ["image/jpeg", "image/png", "image/webp", "image/heic"],
   MIN_RESOLUTION: 640,
+  // Direct-to-R2 photo uploads (see /api/uploads)
+  UPLOAD_URL_EXPIRY: 300, // 5 minutes to start the upload
+  INPUT_URL_EXPIRY: 900, // 15 minutes - signed again for every attempt, so it only has to outlive one
+  STREAM_TOKEN_EXPIRY: 60, // 1 minute to open the status stream (see /api/status/[id]/stream-token)
 
   // Storage limits
   MAX_HISTORY_ITEMS: parseInt(
@@ -19,18 +23,88 @@ export const CONFIG = {
   RETRY_ATTEMPTS: 3,
   POLLING_INTERVAL: 2000, // 2 seconds
 
-  // Image output settings
-  OUTPUT_QUALITY: 0.85,
-  OUTPUT_FORMAT: "image/jpeg",
-  MIN_OUTPUT_SIZE: 1080,
+  // Image output settings, applied when outputs are copied to storage
+  // (see lib/generations/output-processing.ts)
+  OUTPUT_QUALITY: 0.85, // JPEG and WebP
+  OUTPUT_FORMAT: "jpg", // OUTPUT_FORMATS id used by default
+  MIN_OUTPUT_SIZE: 1080, // short edge - smaller outputs are scaled up to it
+  UPSCALE_FACTOR: 2,
+  MAX_OUTPUT_SIZE: 4096, // long edge - upscaling stops here
+  MAX_OUTPUT_ATTEMPTS: 3, // then paid outputs are served unprocessed, free ones refunded
 } as const;
 
+// Image generation backends, keyed by the provider name stored on each generation
+const GENERATION_PROVIDERS = {
+  "nano-banana-pro": {
+    type: "replicate",
+    model: "google/nano-banana-pro",
+  },
+  "gemini-flash-preview": {
+    type: "replicate",
+    model: "google/gemini-2-5-flash-image-preview",
+  },
+  // Offline stand-in that runs the full pipeline without calling Replicate
+  mock: {
+    type: "mock",
+    model: "mock/composite",
+  },
+} as const;
+
+// Mock provider timing and outcomes (GENERATION_PROVIDER=mock)
+export const MOCK_PROVIDER_CONFIG = {
+  START_DELAY_MS: parseInt(process.env.MOCK_GENERATION_START_DELAY_MS || "1000"),
+  DURATION_MS: parseInt(process.env.MOCK_GENERATION_DURATION_MS || "8000"),
+  FAILURE_RATE: parseFloat(process.env.MOCK_GENERATION_FAILURE_RATE || "0"), // 0-1
+} as const;
+
+export type ProviderKey = keyof typeof GENERATION_PROVIDERS;
+
+// Provider names come from the environment - fail at startup on a typo rather
+// than on the first generation (or, for the fallback, the first retry)
+function parseProviderKey(name: string, value: string): ProviderKey {
+  if (!Object.prototype.hasOwnProperty.call(GENERATION_PROVIDERS, value)) {
+    throw new Error(
+      `${name} must be one of ${Object.keys(GENERATION_PROVIDERS).join(", ")}, got "${value}"`
+    );
+  }
+  return value as ProviderKey;
+}
+
 // Nano Banana AI configuration
 export const AI_CONFIG = {
-  MODEL: "google/nano-banana-pro",
-  // Alternative preview version: "google/gemini-2-5-flash-image-preview"
-  PROMPT_TEMPLATE:
-    "Create a photo of the person holding this Labubu doll. Make it look natural and realistic, maintaining the person's appearance exactly as shown. The height of the doll is 14.5 inches and the width is 7.8 inches.",
+  // Active provider - override with GENERATION_PROVIDER (a key of PROVIDERS)
+  PROVIDER: parseProviderKey(
+    "GENERATION_PROVIDER",
+    process.env.GENERATION_PROVIDER || "nano-banana-pro"
+  ),
+  PROVIDERS: GENERATION_PROVIDERS,
+  // Failed or timed-out predictions are resubmitted (without charging again)
+  // this many times, on FALLBACK_PROVIDER when set or the original provider otherwise
+  MAX_RETRIES: 1,
+  FALLBACK_PROVIDER: process.env.GENERATION_FALLBACK_PROVIDER
+    ? parseProviderKey(
+        "GENERATION_FALLBACK_PROVIDER",
+        process.env.GENERATION_FALLBACK_PROVIDER
+      )
+    : undefined,
+  PREDICTION_TIMEOUT_MS: 90000, // 90 seconds per attempt
+  // A claimed slot whose prediction never got attached (a crashed request) is
+  // given up on after this, and any running generation stops counting
+  // against the limits - matches claim_generation_slot
+  STALE_CLAIM_MS: 300000, // 5 minutes
+  // Predictions running at once - anything over either limit waits in the queue
+  MAX_CONCURRENT_PER_USER: 2,
+  MAX_CONCURRENT_GLOBAL: 20,
+  // Queued generations are refunded after this
+  QUEUE_TIMEOUT_MS: 600000, // 10 minutes
+  // Candidate images per generation - each one costs CREDITS_PER_OUTPUT
+  MAX_OUTPUTS: 4,
+  CREDITS_PER_OUTPUT: 1,
+  MAX_LABUBUS_PER_SCENE: 3,
+  // "Try all" batches - one single-output generation per Labubu
+  MAX_BATCH_SIZE: 6,
+  // Optional user-written addition to the prompt (see lib/prompts/moderation.ts)
+  MAX_EXTRA_PROMPT_LENGTH: 200,
   MAX_TOKENS: 1290, // Based on Google's pricing info
   QUALITY: "high",
 } as const;
@@ -183,39 +257,186 @@ export function getPublicUrl(path: string): string {
   return `http://localhost:3000${path}`;
 }
 
+// Pose and scene presets. Clients only send a preset id - the server validates
+// it and builds the prompt text, so requests can't inject their own instructions.
+// A preset is offered for a Labubu type only if it has a placement for it.
+export const POSE_PRESETS = [
+  {
+    id: "holding",
+    name: "Holding",
+    emoji: "🤲",
+    placements: {
+      doll: "held in the person's existing visible hands with a comfortable grip",
+      keychain: "held naturally in the person's existing visible hand",
+    },
+  },
+  {
+    id: "hugging",
+    name: "Hugging",
+    emoji: "🤗",
+    placements: {
+      doll: "hugged against the person's chest with their arms wrapped around it",
+      keychain: "cupped in both hands and held up close to the person's cheek",
+    },
+  },
+  {
+    id: "on-shoulder",
+    name: "On shoulder",
+    emoji: "🫱",
+    placements: {
+      doll: "seated on the person's shoulder, steadied by one of their visible hands",
+      keychain: "clipped to the person's shoulder strap or collar, hanging by its chain",
+    },
+  },
+  {
+    id: "sitting-on-table",
+    name: "On the table",
+    emoji: "🪑",
+    placements: {
+      doll: "sitting upright on the nearest flat surface in the photo (table, desk or ledge) beside the person; if there is none, sitting on the person's lap",
+      keychain: "resting on the nearest flat surface in the photo beside the person; if there is none, lying in the person's open palm",
+    },
+  },
+  {
+    id: "hanging-from-bag",
+    name: "On my bag",
+    emoji: "👜",
+    placements: {
+      keychain: "clipped to the person's bag strap or zipper, dangling by its chain; if no bag is visible, clipped to a belt loop",
+    },
+  },
+] as const;
+
+export type PosePreset = (typeof POSE_PRESETS)[number];
+export type PosePresetId = PosePreset["id"];
+
+export const DEFAULT_POSE: PosePresetId = "holding";
+
+export function getPosePreset(poseId: string): PosePreset | undefined {
+  return POSE_PRESETS.find((preset) => preset.id === poseId);
+}
+
+export function isPoseAvailable(
+  poseId: string,
+  labubuType: LabubuOption["type"]
+): boolean {
+  const preset = getPosePreset(poseId);
+  return !!preset && labubuType in preset.placements;
+}
+
+// Rendering styles. Like poses, clients only send a preset id. The default keeps
+// the templates' photoreal compositing; the others restyle the finished scene.
+export const STYLE_PRESETS = [
+  {
+    id: "photoreal",
+    name: "Photo",
+    emoji: "📷",
+    prompt: null,
+  },
+  {
+    id: "anime",
+    name: "Anime",
+    emoji: "✨",
+    prompt: "a hand-drawn anime illustration with clean line art, cel shading, soft gradient skies and bright saturated colors",
+  },
+  {
+    id: "watercolor",
+    name: "Watercolor",
+    emoji: "🎨",
+    prompt: "a loose watercolor painting on textured paper, with soft bleeding edges, visible brush strokes and a light pastel palette",
+  },
+  {
+    id: "pixel-art",
+    name: "Pixel art",
+    emoji: "👾",
+    prompt: "16-bit pixel art with a limited retro color palette, crisp square pixels and no anti-aliasing or blur",
+  },
+  {
+    id: "vinyl-box-art",
+    name: "Box art",
+    emoji: "📦",
+    prompt: "collectible vinyl toy box art: the person and the Labubus as glossy designer-toy figures posed on a bold graphic packaging backdrop, with studio lighting",
+  },
+] as const;
+
+export type StylePreset = (typeof STYLE_PRESETS)[number];
+export type StylePresetId = StylePreset["id"];
+
+export const DEFAULT_STYLE: StylePresetId = "photoreal";
+
+export function getStylePreset(styleId: string): StylePreset | undefined {
+  return STYLE_PRESETS.find((preset) => preset.id === styleId);
+}
+
+// Output file formats. The model renders JPEG or PNG; WebP is converted from PNG.
+export const OUTPUT_FORMATS = [
+  { id: "jpg", name: "JPEG", contentType: "image/jpeg" },
+  { id: "png", name: "PNG", contentType: "image/png" },
+  { id: "webp", name: "WebP", contentType: "image/webp" },
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+export type OutputFormatId = OutputFormat["id"];
+
+export function getOutputFormat(formatId: string): OutputFormat | undefined {
+  return OUTPUT_FORMATS.find((format) => format.id === formatId);
+}
+
+// File extension for a downloaded output
+export function getOutputExtension(contentType: string): OutputFormatId {
+  return (
+    OUTPUT_FORMATS.find((format) => format.contentType === contentType)?.id ??
+    "jpg"
+  );
+}
+
+// Aspect ratio presets (width / height). The model is asked for the ratio and
+// the output is cropped to it exactly; "original" keeps the photo's framing.
+export const ASPECT_RATIOS = [
+  { id: "original", name: "Original", ratio: null },
+  { id: "1:1", name: "Square", ratio: 1 },
+  { id: "4:5", name: "Portrait", ratio: 4 / 5 },
+  { id: "9:16", name: "Story", ratio: 9 / 16 },
+] as const;
+
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+export type AspectRatioId = AspectRatio["id"];
+
+export function getAspectRatio(aspectRatioId: string): AspectRatio | undefined {
+  return ASPECT_RATIOS.find((preset) => preset.id === aspectRatioId);
+}
+
+export interface OutputOptions {
+  format: OutputFormatId;
+  aspectRatio: AspectRatioId;
+  // Scale up by CONFIG.UPSCALE_FACTOR
+  upscale: boolean;
+}
+
+export const DEFAULT_OUTPUT_OPTIONS: OutputOptions = {
+  format: CONFIG.OUTPUT_FORMAT,
+  aspectRatio: "original",
+  upscale: false,
+};
+
+// Branding on results paid for with free daily credits - paid results are clean
+export const WATERMARK_CONFIG = {
+  ENABLED: process.env.WATERMARK_ENABLED !== "false",
+  // Relative to the project root
+  LOGO_PATH: "public/LabubufyLogo.png",
+  // Corner the logo sits in
+  POSITION: (process.env.WATERMARK_POSITION || "bottom-right") as
+    | "bottom-right"
+    | "bottom-left"
+    | "top-right"
+    | "top-left",
+  WIDTH: parseFloat(process.env.WATERMARK_WIDTH || "0.22"), // of the image width
+  OPACITY: parseFloat(process.env.WATERMARK_OPACITY || "0.85"), // 0-1
+  MARGIN: 0.03, // of the image width
+} as const;
+
 // Helper function to get Labubu name
 export function getLabubuName(labubu_id: number): string {
   const labubu = LABUBU_OPTIONS.find((l) => l.id === labubu_id);
   return labubu?.name || "Classic Pink";
 }
-
-// Enhanced prompting strategy for different Labubu types
-export function generatePrompt(labubuId: number): string {
-  const labubu = LABUBU_OPTIONS.find((l) => l.id === labubuId);
-
-  if (labubu?.type === "keychain") {
-    return `Seamlessly integrate a small Labubu keychain (7.8 inches tall, 2.7 inches wide) into the person's existing visible hands in this photo. Requirements:
-- Use ONLY the hands already visible in the photo - do not add extra hands or limbs
-- Person holds the keychain naturally with realistic hand positioning and grip
-- If only one hand is visible (e.g., selfie), use that single hand to hold the keychain
-- Keychain appears at correct scale relative to human hands
-- Maintain all original lighting, shadows, and color temperature
-- Preserve person's exact facial features, clothing, pose, and background
-- Add subtle cast shadows from the keychain onto hands/clothing
-- Match the keychain's material properties (likely vinyl/plastic with slight sheen)
-- Ensure the keychain's proportions look believable for the person's hand size
-- Blend seamlessly as if photographed together originally`;
-  } else {
-    return `Seamlessly integrate a Labubu doll (14.5 inches tall, 7.8 inches wide) into the person's existing visible hands in this photo. Requirements:
-- Use ONLY the hands already visible in the photo - do not add extra hands or limbs
-- If both hands visible: person holds doll with both hands in comfortable grip
-- If only one hand visible (e.g., selfie): person holds doll with that single hand against their body/chest for support
-- Doll appears at correct scale - significant but not oversized for human hands
-- Maintain all original lighting conditions, shadows, and ambient color
-- Preserve person's exact facial expression, clothing, pose, and entire background
-- Add realistic cast shadows from the doll onto the person and surroundings
-- Match doll's vinyl/plastic material properties with appropriate surface reflection
-- Ensure hand positioning looks natural for holding an object of this size and weight
-- Create perfect photographic integration as if taken in a single shot`;
-  }
-}
@@ -117,6 +117,10 @@ export const errorHandler = {
         if (error.code === 'UNAUTHORIZED') {
           return 'Service temporarily unavailable. Please try again later.';
         }
+        if (error.code === 'INSUFFICIENT_CREDITS') {
+          const required = (error.details as { required?: number } | undefined)?.required ?? 1;
+          return `You need at least ${required} credit${required === 1 ? '' : 's'} for this generation.`;
+        }
         return 'Service error. Please try again in a few moments.';
         
       case ErrorType.STORAGE:
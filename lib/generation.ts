@@ -1,49 +1,225 @@
-import { retryHandler, GenerationError, NetworkError } from './errors';
+import { retryHandler, APIError, GenerationError, NetworkError, LabubuError, ValidationError } from './errors';
 import { CONFIG } from './config';
+import { authService } from './auth';
+
+// Batch polling shares the per-prediction timers, under its own key
+export function getBatchPollingKey(batchId: string): string {
+  return `batch:${batchId}`;
+}
 
 export interface GenerationRequest {
-  image: string;
+  // R2 key returned by uploadImage - preferred over sending the image inline
+  image_key?: string;
+  // Base64 data URL, used when uploads aren't configured
+  image?: string;
   labubu_id: number;
+  // Every Labubu in the scene (up to 3), labubu_id first
+  labubu_ids?: number[];
+  // POSE_PRESETS id for the main Labubu (defaults to holding)
+  pose?: string;
+  // STYLE_PRESETS id (defaults to photoreal)
+  style?: string;
+  // Candidate images to generate (1-4), each costs a credit
+  num_outputs?: number;
+  // Optional free-text addition (max 200 chars), moderated server-side
+  extra_prompt?: string;
+  // Generation being regenerated, from history or the result view
+  parent_generation_id?: string;
+  // OUTPUT_FORMATS id, ASPECT_RATIOS id and 2x upscale - applied server-side
+  output_format?: string;
+  aspect_ratio?: string;
+  upscale?: boolean;
 }
 
 export interface GenerationResponse {
   success: boolean;
+  // The generation id while queued - status and cancel accept either
   prediction_id: string;
+  generation_id?: string;
   status: string;
+  queue_position?: number | null;
   output?: string | string[];
   error?: string;
   labubu_id: number;
+  labubu_ids?: number[];
+  num_outputs?: number;
+  // 'free' results are watermarked
+  credit_tier?: 'free' | 'paid';
+  credits?: number;
   mock?: boolean;
 }
 
 export interface StatusResponse {
   id: string;
-  status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+  status: 'queued' | 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
   output?: string | string[];
   error?: string;
   logs?: string;
   progress: number;
   estimated_time: number;
+  // Only while queued, 1 = next to start
+  queue_position?: number;
+  // False when the output format, shape and upscale couldn't be applied
+  output_options_applied?: boolean;
+}
+
+// "Try all": one generation per Labubu for the same photo
+export interface BatchGenerationRequest {
+  image_key?: string;
+  image?: string;
+  labubu_ids: number[];
+  pose?: string;
+  style?: string;
+  extra_prompt?: string;
+  output_format?: string;
+  aspect_ratio?: string;
+  upscale?: boolean;
+}
+
+export interface BatchStartResponse {
+  success: boolean;
+  batch_id: string;
+  items: {
+    labubu_id: number;
+    labubu_name: string;
+    generation_id?: string;
+    prediction_id?: string;
+    status: 'processing' | 'queued' | 'failed';
+    queue_position?: number;
+    credit_tier?: 'free' | 'paid';
+    error?: string;
+  }[];
+  started: number;
+  credits?: number;
+}
+
+export interface BatchItemStatus {
+  generation_id: string;
+  prediction_id: string | null;
+  labubu_id: number;
+  status: StatusResponse['status'] | 'pending';
+  output?: string | string[];
+  error?: string;
+  progress: number;
+  queue_position?: number;
+  output_options_applied?: boolean;
+}
+
+export interface BatchStatusResponse {
+  batch_id: string;
+  status: 'processing' | 'completed';
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  queued: number;
+  progress: number;
+  estimated_time: number;
+  items: BatchItemStatus[];
+}
+
+export interface GeneratedVariant {
+  imageUrl: string;
+  blob: Blob;
+}
+
+/**
+ * Normalize a prediction output to the list of image URLs it contains
+ */
+export function getOutputUrls(output?: string | string[]): string[] {
+  if (!output) return [];
+  return Array.isArray(output) ? output : [output];
 }
 
 export class GenerationService {
   private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private eventSources: Map<string, EventSource> = new Map();
+  private streamingIds: Set<string> = new Set();
+
+  /**
+   * Upload the photo straight to storage and return its key for image_key.
+   * Returns null when uploads aren't configured, so the caller can send the
+   * image inline instead - the server only takes inline images then.
+   */
+  async uploadImage(file: Blob): Promise<string | null> {
+    const token = await authService.getAccessToken();
+    if (!token) {
+      throw new APIError('No session token available', 'UNAUTHORIZED');
+    }
+
+    const response = await fetch('/api/uploads', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ content_type: file.type, size: file.size }),
+    });
+
+    // Not configured
+    if (response.status === 503) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new NetworkError(
+        errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+        { status: response.status }
+      );
+    }
+
+    const { upload_url, key } = await response.json();
+
+    const upload = await fetch(upload_url, {
+      method: 'PUT',
+      headers: { 'Content-Type': file.type },
+      body: file,
+    });
+
+    if (!upload.ok) {
+      throw new NetworkError('Failed to upload image', { status: upload.status });
+    }
+
+    return key;
+  }
 
   /**
    * Start image generation
    */
   async startGeneration(request: GenerationRequest): Promise<GenerationResponse> {
     try {
+      const token = await authService.getAccessToken();
+      if (!token) {
+        throw new APIError('No session token available', 'UNAUTHORIZED');
+      }
+
       const response = await fetch('/api/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify(request),
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+        if (response.status === 402) {
+          throw new APIError(
+            errorData.error || 'Insufficient credits',
+            'INSUFFICIENT_CREDITS',
+            {
+              status: response.status,
+              credits: errorData.credits,
+              required: errorData.required,
+            }
+          );
+        }
+        // Shown as-is so the prompt addition can be reworded
+        if (errorData.code === 'PROMPT_REJECTED') {
+          throw new ValidationError(errorData.error);
+        }
         throw new GenerationError(
           errorData.error || `HTTP ${response.status}: ${response.statusText}`,
           { status: response.status, request }
@@ -61,7 +237,7 @@ export class GenerationService {
 
       return result;
     } catch (error) {
-      if (error instanceof GenerationError) {
+      if (error instanceof LabubuError) {
         throw error;
       }
       
@@ -73,13 +249,122 @@ export class GenerationService {
     }
   }
 
+  /**
+   * Start a "try all" batch - one generation (and credit) per Labubu
+   */
+  async startBatch(request: BatchGenerationRequest): Promise<BatchStartResponse> {
+    const token = await authService.getAccessToken();
+    if (!token) {
+      throw new APIError('No session token available', 'UNAUTHORIZED');
+    }
+
+    const response = await fetch('/api/generate/batch', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 402) {
+        throw new APIError(
+          errorData.error || 'Insufficient credits',
+          'INSUFFICIENT_CREDITS',
+          {
+            status: response.status,
+            credits: errorData.credits,
+            required: errorData.required,
+          }
+        );
+      }
+      if (errorData.code === 'PROMPT_REJECTED') {
+        throw new ValidationError(errorData.error);
+      }
+      throw new GenerationError(
+        errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+        { status: response.status, request }
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Aggregate status of a batch
+   */
+  async checkBatchStatus(batchId: string): Promise<BatchStatusResponse> {
+    const token = await authService.getAccessToken();
+
+    const response = await retryHandler.withRetry(async () => {
+      const res = await fetch(`/api/generate/batch/${batchId}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+      if (!res.ok) {
+        if (res.status === 404) {
+          throw new GenerationError('Batch not found', { batchId });
+        }
+        throw new NetworkError(`HTTP ${res.status}: ${res.statusText}`);
+      }
+
+      return res;
+    }, 2, 1000);
+
+    return response.json();
+  }
+
+  /**
+   * Poll a batch until every item has settled. Completes even if some items
+   * failed (those are refunded server-side); errors only if none succeeded.
+   */
+  pollBatch(
+    batchId: string,
+    onProgress: (status: BatchStatusResponse) => void,
+    onComplete: (status: BatchStatusResponse) => void,
+    onError: (error: Error) => void
+  ): void {
+    const key = getBatchPollingKey(batchId);
+    this.stopPolling(key);
+
+    const poll = async () => {
+      try {
+        const status = await this.checkBatchStatus(batchId);
+        onProgress(status);
+
+        if (status.status === 'completed') {
+          this.stopPolling(key);
+          if (status.succeeded > 0) {
+            onComplete(status);
+          } else {
+            onError(new GenerationError('Every generation in the batch failed', { batchId, status }));
+          }
+        } else {
+          const interval = setTimeout(poll, CONFIG.POLLING_INTERVAL);
+          this.pollingIntervals.set(key, interval);
+        }
+      } catch (error) {
+        this.stopPolling(key);
+        onError(error as Error);
+      }
+    };
+
+    poll();
+  }
+
   /**
    * Check generation status
    */
   async checkStatus(predictionId: string): Promise<StatusResponse> {
     try {
+      const token = await authService.getAccessToken();
+
       const response = await retryHandler.withRetry(async () => {
-        const res = await fetch(`/api/status/${predictionId}`);
+        const res = await fetch(`/api/status/${predictionId}`, {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+        });
         
         if (!res.ok) {
           if (res.status === 404) {
@@ -155,7 +440,143 @@ export class GenerationService {
   }
 
   /**
-   * Stop polling for a specific prediction
+   * Cancel a running generation. The server stops the prediction and refunds the credit.
+   */
+  async cancelGeneration(predictionId: string): Promise<void> {
+    this.stopPolling(predictionId);
+
+    const token = await authService.getAccessToken();
+
+    const response = await fetch(`/api/generate/${predictionId}/cancel`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new GenerationError(
+        errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+        { status: response.status, predictionId },
+        false
+      );
+    }
+  }
+
+  /**
+   * Stream status updates over Server-Sent Events. Falls back to polling when
+   * EventSource is unavailable or the stream can't be established.
+   */
+  startStreaming(
+    predictionId: string,
+    onProgress: (status: StatusResponse) => void,
+    onComplete: (status: StatusResponse) => void,
+    onError: (error: Error) => void
+  ): void {
+    // Clear any existing polling or stream for this prediction
+    this.stopPolling(predictionId);
+
+    if (typeof EventSource === 'undefined') {
+      this.startPolling(predictionId, onProgress, onComplete, onError);
+      return;
+    }
+
+    this.streamingIds.add(predictionId);
+
+    const fallBackToPolling = () => {
+      // Nothing to fall back for once streaming was stopped
+      if (!this.streamingIds.has(predictionId)) return;
+      this.stopPolling(predictionId);
+      this.startPolling(predictionId, onProgress, onComplete, onError);
+    };
+
+    const openStream = async () => {
+      const token = await this.getStreamToken(predictionId);
+
+      // Stopped while we were waiting for the token
+      if (!this.streamingIds.has(predictionId)) return;
+
+      const source = new EventSource(
+        `/api/status/${predictionId}/stream?token=${encodeURIComponent(token)}`
+      );
+      this.eventSources.set(predictionId, source);
+
+      let receivedStatus = false;
+
+      source.addEventListener('status', (event) => {
+        receivedStatus = true;
+        const status: StatusResponse = JSON.parse((event as MessageEvent).data);
+
+        // Update progress
+        onProgress(status);
+
+        // Check if complete
+        if (status.status === 'succeeded') {
+          this.stopPolling(predictionId);
+          onComplete(status);
+        } else if (status.status === 'failed' || status.status === 'canceled') {
+          this.stopPolling(predictionId);
+          onError(new GenerationError(
+            status.error || `Generation ${status.status}`,
+            { predictionId, status }
+          ));
+        }
+      });
+
+      source.addEventListener('stream_error', (event) => {
+        this.stopPolling(predictionId);
+        const data = JSON.parse((event as MessageEvent).data);
+        onError(new GenerationError(
+          data.error || 'Failed to check generation status',
+          { predictionId }
+        ));
+      });
+
+      source.onerror = () => {
+        // Stream tokens are single-use, so the browser's own reconnect would
+        // be refused - reopen with a fresh token instead, but only when this
+        // stream worked; otherwise poll
+        source.close();
+        if (!this.streamingIds.has(predictionId)) return;
+
+        if (receivedStatus) {
+          openStream().catch(fallBackToPolling);
+        } else {
+          console.warn('Status stream unavailable, falling back to polling');
+          fallBackToPolling();
+        }
+      };
+    };
+
+    openStream().catch(fallBackToPolling);
+  }
+
+  /**
+   * Get a single-use token for the status stream. EventSource can't send an
+   * Authorization header, and the bearer token must not go in the URL.
+   */
+  private async getStreamToken(predictionId: string): Promise<string> {
+    const token = await authService.getAccessToken();
+    if (!token) {
+      throw new APIError('No session token available', 'UNAUTHORIZED');
+    }
+
+    const response = await fetch(`/api/status/${predictionId}/stream-token`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!response.ok) {
+      throw new NetworkError(`HTTP ${response.status}: ${response.statusText}`, {
+        status: response.status,
+      });
+    }
+
+    const data = await response.json();
+    return data.token;
+  }
+
+  /**
+   * Stop polling or streaming for a specific prediction
    */
   stopPolling(predictionId: string): void {
     const interval = this.pollingIntervals.get(predictionId);
@@ -163,14 +584,24 @@ export class GenerationService {
       clearTimeout(interval);
       this.pollingIntervals.delete(predictionId);
     }
+
+    const source = this.eventSources.get(predictionId);
+    if (source) {
+      source.close();
+      this.eventSources.delete(predictionId);
+    }
+    this.streamingIds.delete(predictionId);
   }
 
   /**
-   * Stop all polling
+   * Stop all polling and streams
    */
   stopAllPolling(): void {
     this.pollingIntervals.forEach((interval) => clearTimeout(interval));
     this.pollingIntervals.clear();
+    this.eventSources.forEach((source) => source.close());
+    this.eventSources.clear();
+    this.streamingIds.clear();
   }
 
   /**
@@ -228,62 +659,31 @@ export class GenerationService {
   }
 
   /**
-   * Complete generation flow with polling
+   * Download every output of a completed generation. Outputs that fail to
+   * download are skipped; throws only when none could be loaded.
    */
-  async generateWithPolling(
-    request: GenerationRequest,
-    onProgress: (progress: number, estimatedTime?: number, status?: string) => void
-  ): Promise<{ imageUrl: string; blob: Blob }> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        // Start generation
-        const startResult = await this.startGeneration(request);
-        
-        // Set up polling
-        this.startPolling(
-          startResult.prediction_id,
-          
-          // Progress callback
-          (status) => {
-            onProgress(status.progress, status.estimated_time, status.status);
-          },
-          
-          // Complete callback
-          async (status) => {
-            try {
-              const imageUrl = Array.isArray(status.output) 
-                ? status.output[0] 
-                : status.output;
-                
-              if (!imageUrl) {
-                throw new GenerationError('No image URL in completed result');
-              }
-
-              // Download the final image
-              const blob = await this.downloadImage(imageUrl);
-              
-              resolve({ imageUrl, blob });
-            } catch (error) {
-              reject(error);
-            }
-          },
-          
-          // Error callback
-          (error) => {
-            reject(error);
-          }
-        );
+  async downloadVariants(output?: string | string[]): Promise<GeneratedVariant[]> {
+    const imageUrls = getOutputUrls(output);
+    if (imageUrls.length === 0) {
+      throw new GenerationError('No image URL in completed result');
+    }
 
-        // Set timeout to prevent infinite polling
-        setTimeout(() => {
-          this.stopPolling(startResult.prediction_id);
-          reject(new GenerationError('Generation timeout after 2 minutes'));
-        }, 120000); // 2 minutes
+    const results = await Promise.allSettled(
+      imageUrls.map(async (imageUrl) => ({
+        imageUrl,
+        blob: await this.downloadImage(imageUrl),
+      }))
+    );
 
-      } catch (error) {
-        reject(error);
-      }
-    });
+    const variants = results
+      .filter((result): result is PromiseFulfilledResult<GeneratedVariant> => result.status === 'fulfilled')
+      .map((result) => result.value);
+
+    if (variants.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    return variants;
   }
 }
 
@@ -0,0 +1,141 @@
+// lib/generations/generation-queue.ts
+// Concurrency limits for predictions (see migrations/017_generation_queue.sql).
+// Generations over the per-user or global limit wait as 'queued'. There's no
+// worker: whichever request next settles a generation, or checks on a queued
+// one, starts the queued generations that now fit.
+import { AI_CONFIG } from "@/lib/config";
+import { supabaseAdmin } from "@/lib/supabase";
+import {
+  generationRecords,
+  type GenerationRecord,
+} from "@/lib/generations/generation-records";
+import { getProvider, type ProviderPrediction } from "@/lib/providers";
+
+// Queued generations looked at each time a slot frees up
+const DISPATCH_LIMIT = 10;
+
+export class GenerationQueue {
+  private get db() {
+    if (!supabaseAdmin) {
+      throw new Error("Supabase admin client is not configured");
+    }
+    return supabaseAdmin;
+  }
+
+  /**
+   * Claim a running slot for a pending or queued generation. On success it is
+   * 'starting' and the caller must start its prediction; otherwise it's queued.
+   */
+  async claimSlot(generationId: string): Promise<boolean> {
+    const { data, error } = await this.db.rpc("claim_generation_slot", {
+      generation_id: generationId,
+      max_per_user: AI_CONFIG.MAX_CONCURRENT_PER_USER,
+      max_global: AI_CONFIG.MAX_CONCURRENT_GLOBAL,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim generation slot: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  /**
+   * Start a queued generation if there's room. Returns the latest record:
+   * still queued when there isn't, failed (and refunded) when it waited too
+   * long, has no stored input or the provider rejected it.
+   */
+  async tryStart(record: GenerationRecord): Promise<GenerationRecord> {
+    if (record.status !== "queued") {
+      return record;
+    }
+
+    // Queued before inline photos stopped being stored - nothing to start from
+    if (!record.provider_input || !record.photo_key) {
+      console.warn(`Generation ${record.id} has no stored input, failing it`);
+      return generationRecords.syncPrediction(
+        record,
+        { status: "failed", error: "Photo is no longer available" },
+        { retry: false }
+      );
+    }
+
+    if (
+      Date.now() - new Date(record.created_at).getTime() >
+      AI_CONFIG.QUEUE_TIMEOUT_MS
+    ) {
+      console.warn(`Generation ${record.id} timed out in the queue`);
+      return generationRecords.syncPrediction(
+        record,
+        { status: "failed", error: "Timed out waiting in the queue" },
+        { retry: false }
+      );
+    }
+
+    if (!(await this.claimSlot(record.id))) {
+      return record;
+    }
+
+    const claimed: GenerationRecord = { ...record, status: "starting" };
+    const provider = getProvider(record.provider);
+
+    let prediction: ProviderPrediction;
+    try {
+      prediction = await provider.start(
+        (await generationRecords.getProviderInput(record))!
+      );
+    } catch (startError) {
+      console.error(
+        `Failed to start queued generation ${record.id} on ${provider.name}:`,
+        startError
+      );
+      return generationRecords.syncPrediction(
+        claimed,
+        { status: "failed", error: "Provider rejected request" },
+        { retry: false }
+      );
+    }
+
+    if (
+      !(await generationRecords.attachPrediction(
+        record.id,
+        prediction.id,
+        provider.name
+      ))
+    ) {
+      // Canceled while the prediction was being created - stop it again
+      await provider
+        .cancel(prediction.id)
+        .catch((cancelError) =>
+          console.error(`Failed to cancel prediction ${prediction.id}:`, cancelError)
+        );
+      return (await generationRecords.findById(record.id)) ?? claimed;
+    }
+
+    await generationRecords.linkCreditEvent(record, prediction.id);
+    console.log(
+      `Generation ${record.id}: started queued prediction ${prediction.id} on ${provider.name}`
+    );
+
+    return (await generationRecords.findById(record.id)) ?? claimed;
+  }
+
+  /**
+   * Start whichever queued generations fit now, oldest first. Call after a
+   * generation settles. Never throws - a failed dispatch is retried next time.
+   */
+  async dispatch(): Promise<void> {
+    try {
+      const queued = await generationRecords.findQueued(DISPATCH_LIMIT);
+      for (const record of queued) {
+        await this.tryStart(record).catch((startError) =>
+          console.error(`Failed to dispatch generation ${record.id}:`, startError)
+        );
+      }
+    } catch (error) {
+      console.error("Failed to dispatch queued generations:", error);
+    }
+  }
+}
+
+export const generationQueue = new GenerationQueue();
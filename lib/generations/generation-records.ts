@@ -0,0 +1,906 @@
+// lib/generations/generation-records.ts
+// Server-side persistence for generations (see migrations/005_generations.sql)
+import { supabaseAdmin } from "@/lib/supabase";
+import {
+  AI_CONFIG,
+  CONFIG,
+  DEFAULT_OUTPUT_OPTIONS,
+  WATERMARK_CONFIG,
+  type OutputOptions,
+} from "@/lib/config";
+import { r2Storage } from "@/lib/storage/r2-service";
+import { processOutput } from "@/lib/generations/output-processing";
+import {
+  getProvider,
+  type ImageGenerationProvider,
+  type ProviderGenerationInput,
+  type ProviderPrediction,
+} from "@/lib/providers";
+
+export type GenerationStatus =
+  | "pending"
+  // Over the concurrency limits - started later by generationQueue
+  | "queued"
+  | "starting"
+  | "processing"
+  | "succeeded"
+  | "failed"
+  | "canceled";
+
+// What paid for a generation (see migrations/020_generation_credit_tier.sql).
+// Free-tier results are watermarked.
+export type CreditTier = "free" | "paid";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Generation (and batch) ids are UUIDs - check client-supplied ones before querying
+ */
+export function isGenerationId(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+export interface GenerationRecord {
+  id: string;
+  user_id: string;
+  prediction_id: string | null;
+  original_prediction_id: string | null;
+  // Set when the generation is a regenerate/remix of an earlier one
+  parent_generation_id: string | null;
+  // Shared by the generations of one "try all" batch
+  batch_id: string | null;
+  labubu_id: number;
+  labubu_ids: number[] | null;
+  pose: string | null;
+  style: string | null;
+  extra_prompt: string | null;
+  provider: string | null;
+  model: string;
+  prompt_version: string;
+  status: GenerationStatus;
+  retry_count: number;
+  // Cleared once the generation settles. Never holds the person's photo -
+  // it's signed again from photo_key (see getProviderInput)
+  provider_input: ProviderGenerationInput | null;
+  // R2 upload of the person's photo
+  photo_key: string | null;
+  num_outputs: number;
+  credits_charged: number;
+  credit_event_id: string | null;
+  // Null for generations from before credit tiers
+  credit_tier: CreditTier | null;
+  free_credits_used: number;
+  refunded_at: string | null;
+  output_url: string | null;
+  output_urls: string[] | null;
+  // R2 copies of output_urls (provider URLs expire)
+  output_keys: string[] | null;
+  // Applied to the R2 copies
+  output_options: OutputOptions | null;
+  // Failed attempts at storing the processed copies
+  output_attempts: number;
+  error: string | null;
+  created_at: string;
+  submitted_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+// Prediction state as reported by the provider
+export interface PredictionSnapshot {
+  status: Exclude<GenerationStatus, "pending" | "queued">;
+  output?: string | string[];
+  error?: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+// What will be submitted to the provider for a reserved generation
+export interface GenerationInput {
+  provider: string;
+  input: ProviderGenerationInput;
+  // R2 upload behind the first image - stored instead of its signed URL
+  photoKey?: string | null;
+  pose: string;
+  style: string;
+  extraPrompt?: string | null;
+  parentGenerationId?: string | null;
+  batchId?: string | null;
+  outputOptions?: OutputOptions;
+}
+
+export interface SyncOptions {
+  // Resubmit failed predictions (off when the user asked to cancel)
+  retry?: boolean;
+}
+
+export interface RefundResult {
+  released: boolean;
+  credits?: number;
+  reason?: string;
+}
+
+const TERMINAL_STATUSES: GenerationStatus[] = [
+  "succeeded",
+  "failed",
+  "canceled",
+];
+
+export function isTerminalStatus(status: GenerationStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export class GenerationRecordService {
+  private get db() {
+    if (!supabaseAdmin) {
+      throw new Error("Supabase admin client is not configured");
+    }
+    return supabaseAdmin;
+  }
+
+  async findById(id: string): Promise<GenerationRecord | null> {
+    const { data, error } = await this.db
+      .from("generations")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load generation: ${error.message}`);
+    }
+
+    return data as GenerationRecord | null;
+  }
+
+  /**
+   * Generations started together by /api/generate/batch, oldest first
+   */
+  async findByBatchId(batchId: string): Promise<GenerationRecord[]> {
+    const { data, error } = await this.db
+      .from("generations")
+      .select("*")
+      .eq("batch_id", batchId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load batch: ${error.message}`);
+    }
+
+    return (data ?? []) as GenerationRecord[];
+  }
+
+  /**
+   * Find a generation by its current prediction, or by the first one - clients
+   * keep using the original id after a retry
+   */
+  async findByPredictionId(
+    predictionId: string
+  ): Promise<GenerationRecord | null> {
+    for (const column of ["prediction_id", "original_prediction_id"]) {
+      const { data, error } = await this.db
+        .from("generations")
+        .select("*")
+        .eq(column, predictionId)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to load generation: ${error.message}`);
+      }
+
+      if (data) {
+        return data as GenerationRecord;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a generation whose combined prediction id (one prediction per output,
+   * see ReplicateProvider) includes this prediction
+   */
+  async findByPredictionPart(
+    predictionId: string
+  ): Promise<GenerationRecord | null> {
+    // Only plain provider ids - anything else could act as a LIKE pattern
+    if (!/^[a-z0-9]+$/i.test(predictionId)) {
+      return null;
+    }
+
+    const { data, error } = await this.db
+      .from("generations")
+      .select("*")
+      .like("prediction_id", `%${predictionId}%`)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load generation: ${error.message}`);
+    }
+
+    return data as GenerationRecord | null;
+  }
+
+  /**
+   * Find a generation by the id a client polls it with: the prediction id, or
+   * the generation id while it is queued and has no prediction yet
+   */
+  async findByClientId(id: string): Promise<GenerationRecord | null> {
+    return (
+      (await this.findByPredictionId(id)) ??
+      (isGenerationId(id) ? await this.findById(id) : null)
+    );
+  }
+
+  /**
+   * Queued generations, oldest first
+   */
+  async findQueued(limit: number): Promise<GenerationRecord[]> {
+    const { data, error } = await this.db
+      .from("generations")
+      .select("*")
+      .eq("status", "queued")
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load queued generations: ${error.message}`);
+    }
+
+    return (data ?? []) as GenerationRecord[];
+  }
+
+  /**
+   * Running generations submitted longer ago than olderThanMs, oldest first
+   */
+  async findStale(
+    olderThanMs: number,
+    limit: number
+  ): Promise<GenerationRecord[]> {
+    const { data, error } = await this.db
+      .from("generations")
+      .select("*")
+      .in("status", ["starting", "processing"])
+      .lt("submitted_at", new Date(Date.now() - olderThanMs).toISOString())
+      .order("submitted_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load stale generations: ${error.message}`);
+    }
+
+    return (data ?? []) as GenerationRecord[];
+  }
+
+  /**
+   * Timestamps of the latest successful generations on a model, newest first
+   */
+  async findRecentTimings(
+    model: string,
+    limit: number
+  ): Promise<
+    Pick<GenerationRecord, "submitted_at" | "started_at" | "completed_at">[]
+  > {
+    const { data, error } = await this.db
+      .from("generations")
+      .select("submitted_at, started_at, completed_at")
+      .eq("model", model)
+      .eq("status", "succeeded")
+      .not("started_at", "is", null)
+      .order("completed_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load generation timings: ${error.message}`);
+    }
+
+    return data ?? [];
+  }
+
+  /**
+   * 1-based position of a queued generation among everyone's queued generations
+   */
+  async getQueuePosition(record: GenerationRecord): Promise<number> {
+    const { count, error } = await this.db
+      .from("generations")
+      .select("id", { count: "exact", head: true })
+      .eq("status", "queued")
+      .lt("created_at", record.created_at);
+
+    if (error) {
+      throw new Error(`Failed to load queue position: ${error.message}`);
+    }
+
+    return (count ?? 0) + 1;
+  }
+
+  /**
+   * Store what will be submitted for a reserved generation. Queued generations
+   * are started from this later, and failed ones are retried from it.
+   */
+  async recordInput(
+    id: string,
+    {
+      provider,
+      input,
+      photoKey,
+      pose,
+      style,
+      extraPrompt,
+      parentGenerationId,
+      batchId,
+      outputOptions,
+    }: GenerationInput
+  ): Promise<void> {
+    const { error } = await this.db
+      .from("generations")
+      .update({
+        provider,
+        // Leaves out the photo: a signed URL expires, and an inline one is the
+        // whole image as base64
+        provider_input: { ...input, images: input.images.slice(1) },
+        photo_key: photoKey ?? null,
+        num_outputs: input.numOutputs ?? 1,
+        pose,
+        style,
+        extra_prompt: extraPrompt ?? null,
+        parent_generation_id: parentGenerationId ?? null,
+        batch_id: batchId ?? null,
+        output_options: outputOptions ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id);
+
+    if (error) {
+      throw new Error(`Failed to record generation input: ${error.message}`);
+    }
+  }
+
+  /**
+   * What to submit for a generation, with a freshly signed URL for its
+   * uploaded photo. Null once the generation has settled, or when the photo
+   * was sent inline and so wasn't kept.
+   */
+  async getProviderInput(
+    record: GenerationRecord
+  ): Promise<ProviderGenerationInput | null> {
+    if (!record.provider_input || !record.photo_key) {
+      return null;
+    }
+
+    const photoUrl = await r2Storage.getPresignedDownloadUrl(
+      record.photo_key,
+      CONFIG.INPUT_URL_EXPIRY
+    );
+    return {
+      ...record.provider_input,
+      images: [photoUrl, ...record.provider_input.images],
+    };
+  }
+
+  /**
+   * Link a generation to the prediction the provider created for it. Returns
+   * false if the generation was settled (e.g. canceled) in the meantime.
+   */
+  async attachPrediction(
+    id: string,
+    predictionId: string,
+    provider: string
+  ): Promise<boolean> {
+    const { data, error } = await this.db
+      .from("generations")
+      .update({
+        prediction_id: predictionId,
+        original_prediction_id: predictionId,
+        provider,
+        status: "starting",
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .not("status", "in", `(${TERMINAL_STATUSES.join(",")})`)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to attach prediction: ${error.message}`);
+    }
+
+    return !!data;
+  }
+
+  /**
+   * Link the spend event to the prediction so refunds can find it
+   */
+  async linkCreditEvent(
+    record: Pick<GenerationRecord, "id" | "user_id">,
+    predictionId: string
+  ): Promise<void> {
+    const { error } = await this.db
+      .from("credit_events")
+      .update({
+        metadata: {
+          reservation_id: record.id,
+          generation_id: record.id,
+          prediction_id: predictionId,
+        },
+      })
+      .eq("user_id", record.user_id)
+      .eq("type", "spend")
+      .contains("metadata", { reservation_id: record.id });
+
+    if (error) {
+      console.error(`Failed to link credit event for ${record.id}:`, error);
+    }
+  }
+
+  /**
+   * Mark a generation as failed before a prediction ever existed
+   */
+  async markFailed(id: string, message: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.db
+      .from("generations")
+      .update({
+        status: "failed",
+        error: message,
+        provider_input: null,
+        completed_at: now,
+        updated_at: now,
+      })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Failed to mark generation as failed:", error);
+    }
+  }
+
+  /**
+   * Record the latest provider state. Terminal records are never overwritten.
+   */
+  async applySnapshot(
+    record: GenerationRecord,
+    snapshot: PredictionSnapshot
+  ): Promise<GenerationRecord> {
+    if (isTerminalStatus(record.status) || record.status === snapshot.status) {
+      return record;
+    }
+
+    const outputUrls = Array.isArray(snapshot.output)
+      ? snapshot.output
+      : snapshot.output
+        ? [snapshot.output]
+        : [];
+
+    const updates: Partial<GenerationRecord> = {
+      status: snapshot.status,
+      started_at: snapshot.started_at ?? record.started_at,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (isTerminalStatus(snapshot.status)) {
+      updates.completed_at = snapshot.completed_at ?? new Date().toISOString();
+      updates.output_url = outputUrls[0] ?? null;
+      updates.output_urls = outputUrls.length > 0 ? outputUrls : null;
+      updates.error = snapshot.error ?? null;
+      // Never submitted again, and may hold the person's photo
+      updates.provider_input = null;
+    }
+
+    const { data, error } = await this.db
+      .from("generations")
+      .update(updates)
+      .eq("id", record.id)
+      .not("status", "in", `(${TERMINAL_STATUSES.join(",")})`)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update generation: ${error.message}`);
+    }
+
+    if (!data) {
+      // Another request finished the record first - return its version
+      return (await this.findById(record.id)) ?? record;
+    }
+
+    return data as GenerationRecord;
+  }
+
+  /**
+   * Apply a provider update and settle credits: failed predictions are retried
+   * while retries remain, otherwise failed or canceled generations are
+   * refunded. Used by both the webhook and the status route, so whichever sees
+   * the terminal state first does the retry or refund.
+   */
+  async syncPrediction(
+    record: GenerationRecord,
+    snapshot: PredictionSnapshot,
+    options: SyncOptions = {}
+  ): Promise<GenerationRecord> {
+    if (
+      snapshot.status === "failed" &&
+      options.retry !== false &&
+      this.canRetry(record)
+    ) {
+      const retried = await this.retryPrediction(record, snapshot);
+      if (retried) {
+        return retried;
+      }
+    }
+
+    const updated = await this.applySnapshot(record, snapshot);
+
+    if (
+      (updated.status === "failed" || updated.status === "canceled") &&
+      !updated.refunded_at
+    ) {
+      await this.refund(
+        updated,
+        updated.status === "failed"
+          ? "Generation failed - credit refunded"
+          : "Generation canceled - credit refunded"
+      );
+    }
+
+    // Only pay for the variants that actually came back
+    const missingOutputs =
+      updated.num_outputs - (updated.output_urls?.length ?? 0);
+    const partialRefund = Math.floor(
+      (updated.credits_charged * missingOutputs) / updated.num_outputs
+    );
+    if (
+      updated.status === "succeeded" &&
+      partialRefund > 0 &&
+      !updated.refunded_at
+    ) {
+      await this.refund(
+        updated,
+        `${missingOutputs} of ${updated.num_outputs} images failed - credits refunded`,
+        partialRefund
+      );
+    }
+
+    if (updated.status === "succeeded" && !updated.output_keys) {
+      return this.persistOutputs(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Copy succeeded outputs from the provider's temporary URLs into R2 under
+   * the user's prefix, post-processed with the generation's output options
+   * (and watermarked on the free tier). On failure nothing is stored and the
+   * attempt is counted - the next status check tries again (see
+   * prediction-status.ts) until CONFIG.MAX_OUTPUT_ATTEMPTS, when a free-tier
+   * generation is failed and refunded instead.
+   */
+  async persistOutputs(record: GenerationRecord): Promise<GenerationRecord> {
+    const urls =
+      record.output_urls ?? (record.output_url ? [record.output_url] : []);
+    if (urls.length === 0 || record.output_attempts >= CONFIG.MAX_OUTPUT_ATTEMPTS) {
+      return record;
+    }
+
+    if (!r2Storage.isConfigured()) {
+      // Nowhere to put the watermarked copies, and the originals can't be served
+      return this.requiresWatermark(record)
+        ? this.failUndeliverable(record, "Output storage is not configured")
+        : record;
+    }
+
+    const results = await Promise.allSettled(
+      urls.map(async (url, index) => {
+        const response = await fetch(url);
+        if (!response.ok) {
+          throw new Error(`Failed to download output ${index}: ${response.status}`);
+        }
+
+        const { key } = await r2Storage.uploadImage(
+          record.user_id,
+          await this.postProcess(record, await response.blob()),
+          { generation_id: record.id, variant: String(index) }
+        );
+        return key;
+      })
+    );
+
+    const keys = results
+      .filter(
+        (result): result is PromiseFulfilledResult<string> =>
+          result.status === "fulfilled"
+      )
+      .map((result) => result.value);
+
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    if (failure) {
+      console.error(
+        `Failed to persist outputs for generation ${record.id}:`,
+        failure.reason
+      );
+      await this.deleteStoredOutputs(keys);
+      return this.countOutputFailure(record);
+    }
+
+    // Only the first sync to finish keeps its copies
+    const { data, error } = await this.db
+      .from("generations")
+      .update({ output_keys: keys, updated_at: new Date().toISOString() })
+      .eq("id", record.id)
+      .is("output_keys", null)
+      .select()
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        console.error(`Failed to record output keys for ${record.id}:`, error);
+      }
+      await this.deleteStoredOutputs(keys);
+      return (await this.findById(record.id)) ?? record;
+    }
+
+    return data as GenerationRecord;
+  }
+
+  /**
+   * Whether a succeeded generation may only be delivered once its processed
+   * R2 copies exist. Free-tier results always are - the provider's outputs
+   * carry no watermark. Otherwise, without R2 (or once processing has failed
+   * CONFIG.MAX_OUTPUT_ATTEMPTS times) the provider's outputs are served as
+   * generated.
+   */
+  needsProcessedOutputs(record: GenerationRecord): boolean {
+    if (this.requiresWatermark(record)) {
+      return true;
+    }
+    return (
+      !!record.output_options &&
+      r2Storage.isConfigured() &&
+      record.output_attempts < CONFIG.MAX_OUTPUT_ATTEMPTS
+    );
+  }
+
+  /**
+   * URLs to serve for a settled generation: the R2 copies when they exist,
+   * otherwise whatever the provider returned. Null while the processed copies
+   * are still missing.
+   */
+  async getOutputUrls(record: GenerationRecord): Promise<string[] | null> {
+    if (record.output_keys && r2Storage.isConfigured()) {
+      return Promise.all(
+        record.output_keys.map((key) => r2Storage.getViewUrl(key))
+      );
+    }
+
+    if (this.needsProcessedOutputs(record)) {
+      return null;
+    }
+
+    return record.output_urls ?? (record.output_url ? [record.output_url] : null);
+  }
+
+  /**
+   * Apply the generation's output options and the free-tier watermark. Throws
+   * when that fails, so an unprocessed image is never stored in its place.
+   */
+  private async postProcess(
+    record: GenerationRecord,
+    image: Blob
+  ): Promise<Blob> {
+    const watermark = this.requiresWatermark(record);
+    if (!record.output_options && !watermark) {
+      return image;
+    }
+
+    const { data, contentType } = await processOutput(
+      Buffer.from(await image.arrayBuffer()),
+      record.output_options ?? DEFAULT_OUTPUT_OPTIONS,
+      { watermark }
+    );
+    return new Blob([new Uint8Array(data)], { type: contentType });
+  }
+
+  private requiresWatermark(record: GenerationRecord): boolean {
+    return record.credit_tier === "free" && WATERMARK_CONFIG.ENABLED;
+  }
+
+  /**
+   * Count a failed attempt at storing the processed outputs. Past the limit a
+   * free-tier generation can never be delivered, so it's failed and refunded.
+   */
+  private async countOutputFailure(
+    record: GenerationRecord
+  ): Promise<GenerationRecord> {
+    const attempts = record.output_attempts + 1;
+    const { data, error } = await this.db
+      .from("generations")
+      .update({ output_attempts: attempts, updated_at: new Date().toISOString() })
+      .eq("id", record.id)
+      .eq("output_attempts", record.output_attempts)
+      .is("output_keys", null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to count output attempt for ${record.id}:`, error);
+      return record;
+    }
+
+    if (!data) {
+      // Another sync counted this attempt or stored the outputs
+      return (await this.findById(record.id)) ?? record;
+    }
+
+    const updated = data as GenerationRecord;
+    if (attempts < CONFIG.MAX_OUTPUT_ATTEMPTS) {
+      return updated;
+    }
+
+    console.warn(
+      `Generation ${record.id}: giving up on processed outputs after ${attempts} attempts`
+    );
+    return this.requiresWatermark(updated)
+      ? this.failUndeliverable(updated, "The result could not be processed")
+      : updated;
+  }
+
+  /**
+   * Fail a succeeded generation whose outputs can't be delivered, and refund it
+   */
+  private async failUndeliverable(
+    record: GenerationRecord,
+    message: string
+  ): Promise<GenerationRecord> {
+    const { data, error } = await this.db
+      .from("generations")
+      .update({ status: "failed", error: message, updated_at: new Date().toISOString() })
+      .eq("id", record.id)
+      .eq("status", "succeeded")
+      .is("output_keys", null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fail generation: ${error.message}`);
+    }
+
+    if (!data) {
+      return (await this.findById(record.id)) ?? record;
+    }
+
+    const failed = data as GenerationRecord;
+    await this.refund(failed, "Result could not be delivered - credits refunded");
+    return failed;
+  }
+
+  private async deleteStoredOutputs(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map((key) =>
+        r2Storage
+          .deleteImage(key)
+          .catch((deleteError) =>
+            console.error(`Failed to delete stored output ${key}:`, deleteError)
+          )
+      )
+    );
+  }
+
+  private canRetry(record: GenerationRecord): boolean {
+    return (
+      !isTerminalStatus(record.status) &&
+      !!record.prediction_id &&
+      !!record.provider_input &&
+      !!record.photo_key &&
+      record.retry_count < AI_CONFIG.MAX_RETRIES
+    );
+  }
+
+  /**
+   * Resubmit a failed prediction under the same generation, so no extra credit
+   * is charged. Returns null when the retry couldn't be started and the
+   * failure should stand.
+   */
+  private async retryPrediction(
+    record: GenerationRecord,
+    snapshot: PredictionSnapshot
+  ): Promise<GenerationRecord | null> {
+    // Claim the retry first so concurrent syncs can't each start a prediction
+    const { data: claimed, error: claimError } = await this.db
+      .from("generations")
+      .update({
+        retry_count: record.retry_count + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", record.id)
+      .eq("prediction_id", record.prediction_id!)
+      .eq("retry_count", record.retry_count)
+      .not("status", "in", `(${TERMINAL_STATUSES.join(",")})`)
+      .select()
+      .maybeSingle();
+
+    if (claimError) {
+      throw new Error(`Failed to claim retry: ${claimError.message}`);
+    }
+
+    if (!claimed) {
+      // Another request already retried or settled it
+      return (await this.findById(record.id)) ?? record;
+    }
+
+    // Anything that goes wrong from here lets the failure stand, which also
+    // refunds it - the retry is already claimed, so nothing else would
+    const providerKey = AI_CONFIG.FALLBACK_PROVIDER ?? record.provider;
+    let provider: ImageGenerationProvider;
+    let prediction: ProviderPrediction;
+    try {
+      provider = getProvider(providerKey);
+      prediction = await provider.start(
+        (await this.getProviderInput(record))!
+      );
+    } catch (startError) {
+      console.error(
+        `Failed to retry generation ${record.id} on ${providerKey}:`,
+        startError
+      );
+      return null;
+    }
+
+    console.warn(
+      `Generation ${record.id}: prediction ${record.prediction_id} failed (${
+        snapshot.error ?? "no error"
+      }), retrying as ${prediction.id} on ${provider.name}`
+    );
+
+    const now = new Date().toISOString();
+    const { data, error } = await this.db
+      .from("generations")
+      .update({
+        prediction_id: prediction.id,
+        provider: provider.name,
+        model: provider.model,
+        status: "starting",
+        submitted_at: now,
+        started_at: null,
+        updated_at: now,
+      })
+      .eq("id", record.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record retry: ${error.message}`);
+    }
+
+    return data as GenerationRecord;
+  }
+
+  /**
+   * Return the credits charged for a generation (or part of them). The
+   * database function makes this idempotent, so repeated calls never refund twice.
+   */
+  async refund(
+    record: GenerationRecord,
+    description: string,
+    amount: number = record.credits_charged
+  ): Promise<RefundResult> {
+    const { data, error } = await this.db.rpc("release_generation_credit", {
+      auth_id: record.user_id,
+      reservation_id: record.id,
+      amount,
+      description,
+    });
+
+    if (error) {
+      console.error(`Failed to refund generation ${record.id}:`, error);
+      return { released: false, reason: error.message };
+    }
+
+    return data as RefundResult;
+  }
+}
+
+export const generationRecords = new GenerationRecordService();
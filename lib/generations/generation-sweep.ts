@@ -0,0 +1,61 @@
+// lib/generations/generation-sweep.ts
+// Settle generations nobody is watching any more. Timeouts, retries and
+// refunds otherwise only happen when a client polls or a webhook arrives, so
+// a prediction whose tab was closed (and whose webhook never came) would hold
+// its user's slot and credits forever. Run by /api/cron/sweep.
+import { AI_CONFIG } from "@/lib/config";
+import { generationRecords } from "@/lib/generations/generation-records";
+import { generationQueue } from "@/lib/generations/generation-queue";
+import { resolvePredictionStatus } from "@/lib/generations/prediction-status";
+
+// Generations looked at per sweep, oldest first
+const SWEEP_LIMIT = 50;
+
+/**
+ * Resolve every running generation that has been out longer than a
+ * prediction may take: timed-out predictions are canceled and retried or
+ * refunded, and ones the provider doesn't know (or that never got a
+ * prediction) are failed and refunded. Then starts whatever queued
+ * generations fit. Returns how many generations were looked at.
+ */
+export async function sweepStaleGenerations(): Promise<number> {
+  const stale = await generationRecords.findStale(
+    AI_CONFIG.PREDICTION_TIMEOUT_MS,
+    SWEEP_LIMIT
+  );
+
+  for (const record of stale) {
+    try {
+      // Claimed slots get a few minutes to attach their prediction
+      if (
+        !record.prediction_id &&
+        Date.now() - new Date(record.submitted_at!).getTime() <
+          AI_CONFIG.STALE_CLAIM_MS
+      ) {
+        continue;
+      }
+
+      const status = record.prediction_id
+        ? await resolvePredictionStatus(record)
+        : null;
+      if (!status) {
+        console.warn(`Generation ${record.id}: no running prediction, failing it`);
+        await generationRecords.syncPrediction(
+          record,
+          {
+            status: "failed",
+            error: record.prediction_id
+              ? "Prediction not found"
+              : "Prediction was never started",
+          },
+          { retry: false }
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to sweep generation ${record.id}:`, error);
+    }
+  }
+
+  await generationQueue.dispatch();
+  return stale.length;
+}
@@ -0,0 +1,90 @@
+// lib/generations/generation-timings.ts
+// How long generations actually take on each model: rolling medians over the
+// latest successful generations, behind progress bars and time estimates
+import { generationRecords } from "@/lib/generations/generation-records";
+
+export interface GenerationTimings {
+  // Submitted to the provider until it began processing
+  startupMs: number;
+  // Processing until the output was ready
+  runMs: number;
+}
+
+// Until a model has enough history - about 45 seconds for Nano Banana
+export const DEFAULT_TIMINGS: GenerationTimings = {
+  startupMs: 10000,
+  runMs: 35000,
+};
+
+const SAMPLE_SIZE = 50;
+const MIN_SAMPLES = 5;
+// Medians barely move from one generation to the next
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+type TimestampKey = "submitted_at" | "started_at" | "completed_at";
+
+export class GenerationTimingService {
+  private cache = new Map<
+    string,
+    { timings: GenerationTimings; fetchedAt: number }
+  >();
+
+  async getTimings(model: string): Promise<GenerationTimings> {
+    const cached = this.cache.get(model);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.timings;
+    }
+
+    try {
+      const rows = await generationRecords.findRecentTimings(
+        model,
+        SAMPLE_SIZE
+      );
+      const startup = durations(rows, "submitted_at", "started_at");
+      const run = durations(rows, "started_at", "completed_at");
+
+      const timings: GenerationTimings = {
+        startupMs:
+          startup.length >= MIN_SAMPLES
+            ? median(startup)
+            : DEFAULT_TIMINGS.startupMs,
+        runMs: run.length >= MIN_SAMPLES ? median(run) : DEFAULT_TIMINGS.runMs,
+      };
+
+      this.cache.set(model, { timings, fetchedAt: Date.now() });
+      return timings;
+    } catch (error) {
+      console.error(`Failed to load generation timings for ${model}:`, error);
+      return DEFAULT_TIMINGS;
+    }
+  }
+}
+
+// Skips rows missing either timestamp, and negative spans from clock skew
+// between us and the provider
+function durations(
+  rows: Partial<Record<TimestampKey, string | null>>[],
+  from: TimestampKey,
+  to: TimestampKey
+): number[] {
+  return rows.flatMap((row) => {
+    const start = row[from];
+    const end = row[to];
+    if (!start || !end) {
+      return [];
+    }
+
+    const duration = new Date(end).getTime() - new Date(start).getTime();
+    return duration >= 0 ? [duration] : [];
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+export const generationTimings = new GenerationTimingService();
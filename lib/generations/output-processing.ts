@@ -0,0 +1,151 @@
+// lib/generations/output-processing.ts
+// Post-processing of generated images before they're stored and delivered:
+// crop to the requested aspect ratio, scale up, watermark free-tier results
+// and encode in the requested format
+import { readFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import {
+  CONFIG,
+  WATERMARK_CONFIG,
+  getAspectRatio,
+  type OutputOptions,
+} from "@/lib/config";
+
+export interface ProcessedImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ProcessOptions {
+  // Brand the image (free-tier results)
+  watermark?: boolean;
+}
+
+// Read once per server instance
+let logoPromise: Promise<Buffer> | null = null;
+
+function loadLogo(): Promise<Buffer> {
+  if (!logoPromise) {
+    logoPromise = readFile(
+      path.join(process.cwd(), WATERMARK_CONFIG.LOGO_PATH)
+    ).catch((error) => {
+      // Try again next time rather than caching the failure
+      logoPromise = null;
+      throw error;
+    });
+  }
+  return logoPromise;
+}
+
+/**
+ * The logo sized and faded for an image of the given size, with where it goes
+ */
+async function buildWatermark(
+  width: number,
+  height: number
+): Promise<sharp.OverlayOptions> {
+  const logoWidth = Math.max(1, Math.round(width * WATERMARK_CONFIG.WIDTH));
+  const opacity = Math.round(
+    Math.min(1, Math.max(0, WATERMARK_CONFIG.OPACITY)) * 255
+  );
+
+  // Scale the logo's own alpha by the configured opacity
+  const { data, info } = await sharp(await loadLogo())
+    .resize({ width: logoWidth })
+    .ensureAlpha()
+    .composite([
+      {
+        input: Buffer.from([255, 255, 255, opacity]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: "dest-in",
+      },
+    ])
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const margin = Math.round(width * WATERMARK_CONFIG.MARGIN);
+  const [vertical, horizontal] = WATERMARK_CONFIG.POSITION.split("-");
+
+  return {
+    input: data,
+    left: horizontal === "left" ? margin : Math.max(0, width - info.width - margin),
+    top: vertical === "top" ? margin : Math.max(0, height - info.height - margin),
+  };
+}
+
+/**
+ * Final size of an output: the largest crop at the requested aspect ratio,
+ * scaled up by UPSCALE_FACTOR when asked and to at least MIN_OUTPUT_SIZE on its
+ * short edge, but never past MAX_OUTPUT_SIZE on its long edge. Images are never
+ * scaled down.
+ */
+export function getOutputSize(
+  width: number,
+  height: number,
+  options: OutputOptions
+): { width: number; height: number } {
+  const ratio = getAspectRatio(options.aspectRatio)?.ratio ?? null;
+
+  let cropWidth = width;
+  let cropHeight = height;
+  if (ratio && width / height > ratio) {
+    cropWidth = Math.round(height * ratio);
+  } else if (ratio) {
+    cropHeight = Math.round(width / ratio);
+  }
+
+  const wanted = Math.max(
+    options.upscale ? CONFIG.UPSCALE_FACTOR : 1,
+    CONFIG.MIN_OUTPUT_SIZE / Math.min(cropWidth, cropHeight)
+  );
+  const scale = Math.max(
+    1,
+    Math.min(wanted, CONFIG.MAX_OUTPUT_SIZE / Math.max(cropWidth, cropHeight))
+  );
+
+  return {
+    width: Math.round(cropWidth * scale),
+    height: Math.round(cropHeight * scale),
+  };
+}
+
+export async function processOutput(
+  image: Buffer,
+  options: OutputOptions,
+  { watermark = false }: ProcessOptions = {}
+): Promise<ProcessedImage> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new Error("Output image has no dimensions");
+  }
+
+  const size = getOutputSize(width, height, options);
+  // Crops keep the most interesting part - the person and their Labubu
+  const pipeline = sharp(image).resize(size.width, size.height, {
+    fit: "cover",
+    position: sharp.strategy.attention,
+    kernel: sharp.kernel.lanczos3,
+  });
+
+  if (watermark) {
+    pipeline.composite([await buildWatermark(size.width, size.height)]);
+  }
+
+  const quality = Math.round(CONFIG.OUTPUT_QUALITY * 100);
+  switch (options.format) {
+    case "png":
+      return { data: await pipeline.png().toBuffer(), contentType: "image/png" };
+    case "webp":
+      return {
+        data: await pipeline.webp({ quality }).toBuffer(),
+        contentType: "image/webp",
+      };
+    default:
+      return {
+        data: await pipeline.jpeg({ quality }).toBuffer(),
+        contentType: "image/jpeg",
+      };
+  }
+}
@@ -0,0 +1,286 @@
+// lib/generations/prediction-status.ts
+// Current state of a generation as returned to clients, shared by the
+// polling route and the SSE stream
+import {
+  generationRecords,
+  isTerminalStatus,
+  type GenerationRecord,
+} from "@/lib/generations/generation-records";
+import { generationQueue } from "@/lib/generations/generation-queue";
+import {
+  generationTimings,
+  type GenerationTimings,
+} from "@/lib/generations/generation-timings";
+import {
+  getProvider,
+  type PredictionStatus,
+  type ProviderPrediction,
+} from "@/lib/providers";
+import { AI_CONFIG } from "@/lib/config";
+
+// Progress bar share of each phase - only a succeeded prediction reaches 100
+const STARTING_SHARE = 10;
+const PROCESSING_SHARE = 85;
+
+// Below this, a provider's own progress is too early to extrapolate from
+const MIN_REPORTED_PROGRESS = 0.1;
+
+export interface PredictionStatusPayload {
+  // The generation id while queued, the prediction id after
+  id: string;
+  status: PredictionStatus | "queued";
+  output?: string | string[];
+  error?: string;
+  progress: number;
+  estimated_time: number;
+  // 1-based, only while queued
+  queue_position?: number;
+  // With the output of a succeeded generation that asked for output options:
+  // false when they couldn't be applied (no R2 to store processed copies)
+  output_options_applied?: boolean;
+}
+
+/**
+ * Resolve the latest status for a generation. Queued records are started if
+ * a slot has freed up, settled records are answered from the database, and
+ * in-flight ones are checked with the provider that started them and the
+ * record is synced (which refunds failures). Succeeded generations are
+ * reported as processing until their processed outputs are stored. Returns
+ * null if the provider doesn't know the prediction.
+ */
+export async function resolvePredictionStatus(
+  initialRecord: GenerationRecord
+): Promise<PredictionStatusPayload | null> {
+  // Polling a queued generation is also what moves it along
+  const record =
+    initialRecord.status === "queued"
+      ? await generationQueue.tryStart(initialRecord)
+      : initialRecord;
+
+  // Already settled (usually by the Replicate webhook) - no need to ask the provider again
+  if (isTerminalStatus(record.status)) {
+    // Storing the processed copies failed last time - try again
+    const settled =
+      record.status === "succeeded" && awaitingOutputs(record)
+        ? await generationRecords.persistOutputs(record)
+        : record;
+    const succeeded = settled.status === "succeeded";
+    if (succeeded && awaitingOutputs(settled)) {
+      return processingOutputs(settled.prediction_id ?? settled.id);
+    }
+
+    return {
+      id: settled.prediction_id ?? settled.id,
+      status: settled.status as PredictionStatus,
+      output: (await generationRecords.getOutputUrls(settled)) ?? undefined,
+      error: settled.error ?? undefined,
+      progress: settled.status === "succeeded" ? 100 : 0,
+      estimated_time: 0,
+      ...(succeeded && outputOptionsApplied(settled)),
+    };
+  }
+
+  const timings = await generationTimings.getTimings(record.model);
+
+  if (record.status === "queued") {
+    const position = await generationRecords.getQueuePosition(record);
+    return {
+      id: record.id,
+      status: "queued",
+      progress: 0,
+      // Rough - as if the generations ahead finish one at a time
+      estimated_time: toSeconds(
+        (timings.startupMs + timings.runMs) * (position + 1)
+      ),
+      queue_position: position,
+    };
+  }
+
+  // Just taken out of the queue - its prediction is still being created
+  if (!record.prediction_id) {
+    return {
+      id: record.id,
+      status: "starting",
+      ...estimateProgress({ status: "starting" }, record.submitted_at, timings),
+    };
+  }
+
+  const predictionId = record.prediction_id;
+  const provider = getProvider(record.provider);
+  let result = await provider.getStatus(predictionId);
+  if (!result) {
+    return null;
+  }
+
+  // Stuck predictions are canceled and treated as failures, which triggers a retry
+  if (!isTerminalStatus(result.status) && hasTimedOut(record)) {
+    console.warn(`Prediction ${predictionId} timed out, canceling`);
+    await provider
+      .cancel(predictionId)
+      .catch((cancelError) =>
+        console.error("Failed to cancel timed-out prediction:", cancelError)
+      );
+    result = {
+      ...result,
+      status: "failed",
+      error: "Prediction timed out",
+    };
+  }
+
+  // Keep the generation record in sync with the provider (retries or refunds failures)
+  let updated: GenerationRecord | null = null;
+  try {
+    updated = await generationRecords.syncPrediction(record, {
+      status: result.status,
+      output: result.output,
+      error: result.error,
+      started_at: result.started_at,
+      completed_at: result.completed_at,
+    });
+  } catch (recordError) {
+    console.error("Failed to update generation record:", recordError);
+  }
+
+  // Its slot is free now
+  if (updated && isTerminalStatus(updated.status)) {
+    await generationQueue.dispatch();
+  }
+
+  // The failed attempt was replaced by a retry, so the generation is still running
+  if (updated && updated.prediction_id !== result.id) {
+    return {
+      id: updated.prediction_id!,
+      status: updated.status as PredictionStatus,
+      ...estimateProgress(
+        { status: updated.status as PredictionStatus },
+        updated.submitted_at,
+        timings
+      ),
+    };
+  }
+
+  // Its outputs couldn't be delivered, so it was failed (and refunded) after all
+  if (result.status === "succeeded" && updated?.status === "failed") {
+    return {
+      id: result.id,
+      status: "failed",
+      error: updated.error ?? undefined,
+      progress: 0,
+      estimated_time: 0,
+    };
+  }
+
+  // The outputs aren't delivered until their processed copies are stored
+  const settled = updated ?? record;
+  if (result.status === "succeeded" && awaitingOutputs(settled)) {
+    return processingOutputs(result.id);
+  }
+
+  // Serve the R2 copies once they exist, the provider URLs expire
+  const output = settled.output_keys
+    ? ((await generationRecords.getOutputUrls(settled)) ?? undefined)
+    : result.output;
+
+  return {
+    id: result.id,
+    status: result.status,
+    output,
+    error: result.error,
+    ...estimateProgress(
+      result,
+      record.submitted_at ?? result.created_at ?? null,
+      timings
+    ),
+    ...(result.status === "succeeded" && outputOptionsApplied(settled)),
+  };
+}
+
+// Processed copies are required but not stored yet
+function awaitingOutputs(record: GenerationRecord): boolean {
+  return (
+    !record.output_keys && generationRecords.needsProcessedOutputs(record)
+  );
+}
+
+// Reported as still processing while the outputs are being post-processed
+function processingOutputs(id: string): PredictionStatusPayload {
+  return {
+    id,
+    status: "processing",
+    progress: STARTING_SHARE + PROCESSING_SHARE,
+    estimated_time: 0,
+  };
+}
+
+// Only reported for generations that asked for output options
+function outputOptionsApplied(
+  record: GenerationRecord
+): Pick<PredictionStatusPayload, "output_options_applied"> {
+  if (!record.output_options) {
+    return {};
+  }
+  return { output_options_applied: !!record.output_keys };
+}
+
+function hasTimedOut(record: GenerationRecord): boolean {
+  if (!record.submitted_at) {
+    return false;
+  }
+  return (
+    Date.now() - new Date(record.submitted_at).getTime() >
+    AI_CONFIG.PREDICTION_TIMEOUT_MS
+  );
+}
+
+/**
+ * Progress and seconds remaining for a prediction. While processing, the
+ * provider's own progress (parsed from its logs) is used when it reports
+ * one; otherwise time elapsed is measured against the model's median timings.
+ */
+function estimateProgress(
+  prediction: Pick<ProviderPrediction, "status" | "progress" | "started_at">,
+  submittedAt: string | null,
+  timings: GenerationTimings
+): { progress: number; estimated_time: number } {
+  if (isTerminalStatus(prediction.status)) {
+    return {
+      progress: prediction.status === "succeeded" ? 100 : 0,
+      estimated_time: 0,
+    };
+  }
+
+  const now = Date.now();
+
+  if (prediction.status === "starting" || !prediction.started_at) {
+    const waited = submittedAt ? now - new Date(submittedAt).getTime() : 0;
+    return {
+      progress: Math.round(
+        STARTING_SHARE * Math.min(waited / timings.startupMs, 1)
+      ),
+      estimated_time: toSeconds(
+        Math.max(timings.startupMs - waited, 0) + timings.runMs
+      ),
+    };
+  }
+
+  const running = now - new Date(prediction.started_at).getTime();
+  const reported = prediction.progress;
+
+  const fraction =
+    reported !== undefined ? reported : Math.min(running / timings.runMs, 1);
+  // Extrapolate from the provider's pace once it's far enough along
+  const remaining =
+    reported !== undefined && reported >= MIN_REPORTED_PROGRESS
+      ? (running * (1 - reported)) / reported
+      : timings.runMs - running;
+
+  return {
+    progress: Math.round(STARTING_SHARE + PROCESSING_SHARE * fraction),
+    // 0 once past the median - the client shows an open-ended message then
+    estimated_time: toSeconds(Math.max(remaining, 0)),
+  };
+}
+
+function toSeconds(ms: number): number {
+  return Math.ceil(ms / 1000);
+}
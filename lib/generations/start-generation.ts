@@ -0,0 +1,436 @@
+// lib/generations/start-generation.ts
+// Reserve credits, start the provider prediction (or queue it, see
+// generation-queue.ts) and record it. Shared by /api/generate and
+// /api/generate/batch so every generation is charged and refunded the same way.
+import {
+  AI_CONFIG,
+  CONFIG,
+  DEFAULT_OUTPUT_OPTIONS,
+  getAspectRatio,
+  getLabubuImageUrl,
+  getLabubuName,
+  getOutputFormat,
+  WATERMARK_CONFIG,
+  type OutputOptions,
+} from "@/lib/config";
+import {
+  appendExtraPrompt,
+  applyStylePreset,
+  assignPromptTemplate,
+  moderateExtraPrompt,
+} from "@/lib/prompts";
+import { supabaseAdmin } from "@/lib/supabase";
+import { r2Storage } from "@/lib/storage/r2-service";
+import {
+  generationRecords,
+  type CreditTier,
+} from "@/lib/generations/generation-records";
+import { generationQueue } from "@/lib/generations/generation-queue";
+import {
+  getProvider,
+  ProviderError,
+  type ProviderGenerationInput,
+  type ProviderPrediction,
+} from "@/lib/providers";
+
+// A request problem to return to the client as-is
+export interface GenerationInputError {
+  error: string;
+  status: number;
+  code?: string;
+}
+
+export interface StartGenerationOptions {
+  userId: string;
+  // Main Labubu first
+  labubuIds: number[];
+  // Data URL or signed URL of the person's photo (see resolvePhotoUrl)
+  photoUrl: string;
+  // The upload behind a signed photoUrl. Without one the photo isn't stored,
+  // so the generation can't be queued or retried.
+  photoKey?: string | null;
+  pose: string;
+  style: string;
+  numOutputs: number;
+  extraPrompt?: string | null;
+  parentGenerationId?: string | null;
+  batchId?: string | null;
+  outputOptions: OutputOptions;
+}
+
+export type StartGenerationResult =
+  | {
+      // Charged and either running or queued
+      started: true;
+      generationId: string;
+      // Null while queued
+      predictionId: string | null;
+      queuePosition: number | null;
+      labubuName: string;
+      credits: number;
+      // Free-tier results are watermarked
+      creditTier: CreditTier;
+    }
+  | ({ started: false; credits?: number; required?: number } & GenerationInputError);
+
+interface CreditReservation {
+  reserved: boolean;
+  credits: number;
+  generation_id?: string;
+  credit_tier?: CreditTier;
+}
+
+interface ReservationRef {
+  authId: string;
+  reservationId: string;
+  amount: number;
+}
+
+/**
+ * Turn the request's image_key (an upload from /api/uploads) or inline image
+ * into the URL handed to the provider. Uploads become a short-lived signed URL,
+ * and their key is returned so the generation can sign it again later. Inline
+ * images are only taken when uploads aren't configured.
+ */
+export async function resolvePhotoUrl(
+  userId: string,
+  image: string | undefined,
+  imageKey: string | undefined
+): Promise<{ photoUrl: string; photoKey: string | null } | GenerationInputError> {
+  if (!imageKey) {
+    if (!image) {
+      return { error: "Missing image_key (or image)", status: 400 };
+    }
+    // Upload through /api/uploads instead - a base64 body is never stored
+    if (r2Storage.isConfigured()) {
+      return { error: "Upload the photo and send image_key instead of image", status: 400 };
+    }
+    return { photoUrl: image, photoKey: null };
+  }
+
+  if (typeof imageKey !== "string" || !r2Storage.isUserUploadKey(userId, imageKey)) {
+    return { error: "Invalid image_key", status: 400 };
+  }
+
+  if (!r2Storage.isConfigured()) {
+    return { error: "Uploads are not configured", status: 503 };
+  }
+
+  if (!(await r2Storage.objectExists(imageKey))) {
+    return { error: "Uploaded image not found", status: 400 };
+  }
+
+  return {
+    photoUrl: await r2Storage.getPresignedDownloadUrl(
+      imageKey,
+      CONFIG.INPUT_URL_EXPIRY
+    ),
+    photoKey: imageKey,
+  };
+}
+
+/**
+ * Validate and moderate an optional extra_prompt. Empty values mean none.
+ */
+export function parseExtraPrompt(
+  userId: string,
+  extraPrompt: unknown
+): { extraPrompt: string | null } | GenerationInputError {
+  if (extraPrompt === undefined || extraPrompt === null || extraPrompt === "") {
+    return { extraPrompt: null };
+  }
+
+  if (typeof extraPrompt !== "string") {
+    return { error: "extra_prompt must be a string", status: 400 };
+  }
+
+  const moderation = moderateExtraPrompt(extraPrompt);
+  if (!moderation.allowed) {
+    console.log(`🚀 GENERATE: Rejected extra prompt for user ${userId}: ${moderation.reason}`);
+    return { error: moderation.reason, status: 400, code: "PROMPT_REJECTED" };
+  }
+
+  return { extraPrompt: moderation.text };
+}
+
+/**
+ * Validate the optional output_format, aspect_ratio and upscale fields,
+ * defaulting whichever are missing.
+ */
+export function parseOutputOptions(
+  outputFormat: unknown,
+  aspectRatio: unknown,
+  upscale: unknown
+): { outputOptions: OutputOptions } | GenerationInputError {
+  const format = outputFormat ?? DEFAULT_OUTPUT_OPTIONS.format;
+  if (typeof format !== "string" || !getOutputFormat(format)) {
+    return { error: "Unknown output_format", status: 400 };
+  }
+
+  const ratio = aspectRatio ?? DEFAULT_OUTPUT_OPTIONS.aspectRatio;
+  if (typeof ratio !== "string" || !getAspectRatio(ratio)) {
+    return { error: "Unknown aspect_ratio", status: 400 };
+  }
+
+  if (upscale !== undefined && typeof upscale !== "boolean") {
+    return { error: "upscale must be a boolean", status: 400 };
+  }
+
+  return {
+    outputOptions: {
+      format: getOutputFormat(format)!.id,
+      aspectRatio: getAspectRatio(ratio)!.id,
+      upscale: upscale ?? DEFAULT_OUTPUT_OPTIONS.upscale,
+    },
+  };
+}
+
+/**
+ * Reserve the credits, then start the prediction and attach it to the
+ * generation, or queue the generation when the user (or everyone) is at the
+ * concurrency limit. Expected failures (no credits, provider rejection, a
+ * cancel while the prediction was being created) are returned; anything
+ * unexpected is thrown after the reservation has been released.
+ */
+export async function startGeneration(
+  options: StartGenerationOptions
+): Promise<StartGenerationResult> {
+  const { userId, labubuIds, pose, style, numOutputs, outputOptions } = options;
+
+  if (!supabaseAdmin) {
+    return { started: false, error: "Server configuration error", status: 500 };
+  }
+
+  const cost = numOutputs * AI_CONFIG.CREDITS_PER_OUTPUT;
+  const provider = getProvider();
+  const promptTemplate = assignPromptTemplate(userId);
+
+  // Get Labubu reference image URLs and names
+  const labubuImageUrls = labubuIds.map(getLabubuImageUrl);
+  const labubuName = labubuIds.map(getLabubuName).join(" + ");
+
+  // Reserve the credit and record the generation before any paid work happens.
+  // The reservation id doubles as the generation id.
+  const reservationId = crypto.randomUUID();
+  const { data: reserveData, error: reserveError } = await supabaseAdmin.rpc(
+    "reserve_generation_credit",
+    {
+      auth_id: userId,
+      reservation_id: reservationId,
+      labubu_id: labubuIds[0],
+      model: provider.model,
+      prompt_version: promptTemplate.id,
+      amount: cost,
+      labubu_ids: labubuIds,
+    }
+  );
+
+  if (reserveError) {
+    console.error("🚀 GENERATE: Failed to reserve credit:", reserveError);
+    return { started: false, error: "Failed to reserve credit", status: 500 };
+  }
+
+  const creditReservation = reserveData as CreditReservation;
+  if (!creditReservation.reserved) {
+    return {
+      started: false,
+      error: "Insufficient credits",
+      status: 402,
+      credits: creditReservation.credits,
+      required: cost,
+    };
+  }
+
+  const reservation: ReservationRef = {
+    authId: userId,
+    reservationId,
+    amount: cost,
+  };
+
+  // Free-tier results are only delivered watermarked, and that needs R2
+  if (
+    creditReservation.credit_tier === "free" &&
+    WATERMARK_CONFIG.ENABLED &&
+    !r2Storage.isConfigured()
+  ) {
+    console.error("🚀 GENERATE: R2 is not configured, so free-tier results can't be watermarked");
+    await generationRecords.markFailed(reservationId, "Output storage is not configured");
+    await releaseReservation(reservation);
+    return {
+      started: false,
+      error: "Generating with free credits is unavailable right now",
+      status: 503,
+    };
+  }
+
+  // Set once the prediction is running or the generation is queued
+  let handedOff = false;
+  try {
+    // Kept on the generation (the photo only by its key) so it can be started
+    // from the queue, and a failed prediction resubmitted
+    const providerInput: ProviderGenerationInput = {
+      prompt: appendExtraPrompt(
+        applyStylePreset(promptTemplate.build(labubuIds, pose), style),
+        options.extraPrompt
+      ),
+      images: [options.photoUrl, ...labubuImageUrls],
+      // Lossless when the output is converted to PNG or WebP afterwards
+      outputFormat: outputOptions.format === "jpg" ? "jpg" : "png",
+      aspectRatio:
+        outputOptions.aspectRatio === "original"
+          ? undefined
+          : outputOptions.aspectRatio,
+      numOutputs,
+    };
+
+    await generationRecords.recordInput(reservationId, {
+      provider: provider.name,
+      input: providerInput,
+      photoKey: options.photoKey,
+      pose,
+      style,
+      extraPrompt: options.extraPrompt,
+      parentGenerationId: options.parentGenerationId,
+      batchId: options.batchId,
+      outputOptions,
+    });
+
+    if (!(await generationQueue.claimSlot(reservationId))) {
+      // An inline photo isn't stored, so there'd be nothing to start it from later
+      if (!options.photoKey) {
+        await generationRecords.markFailed(reservationId, "No free generation slot");
+        await releaseReservation(reservation);
+        return {
+          started: false,
+          error: "Too many generations running - please try again in a moment",
+          status: 429,
+        };
+      }
+
+      // The reservation stands - the queue starts the generation when a slot frees up
+      handedOff = true;
+      const record = await generationRecords.findById(reservationId);
+      const queuePosition = record
+        ? await generationRecords.getQueuePosition(record)
+        : 1;
+      console.log(`🚀 GENERATE: Generation ${reservationId} queued at position ${queuePosition}`);
+
+      return {
+        started: true,
+        generationId: reservationId,
+        predictionId: null,
+        queuePosition,
+        labubuName,
+        credits: creditReservation.credits,
+        creditTier: creditReservation.credit_tier ?? "paid",
+      };
+    }
+
+    console.log(`🚀 GENERATE: Starting ${provider.name} generation for Labubu ${labubuIds.join(", ")} (${labubuName}) with prompt ${promptTemplate.id}, style ${style}`);
+
+    let result: ProviderPrediction;
+    try {
+      result = await provider.start(providerInput);
+    } catch (providerError) {
+      if (!(providerError instanceof ProviderError)) {
+        throw providerError;
+      }
+
+      console.error(`🚀 GENERATE: ${provider.name} error:`, providerError.message);
+
+      await generationRecords.markFailed(
+        reservationId,
+        `Provider rejected request: ${providerError.status ?? "unknown"}`
+      );
+      await releaseReservation(reservation);
+
+      if (providerError.status === 401) {
+        return { started: false, error: "Invalid API credentials", status: 401 };
+      }
+      if (providerError.status === 429) {
+        return {
+          started: false,
+          error: "Rate limit exceeded. Please try again later.",
+          status: 429,
+        };
+      }
+
+      return {
+        started: false,
+        error: `API request failed: ${providerError.status ?? 500}`,
+        status: providerError.status ?? 500,
+      };
+    }
+
+    console.log(`🚀 GENERATE: Prediction created with ID: ${result.id} (${numOutputs} outputs)`);
+
+    // The prediction is running now, so later failures must not release the credit
+    handedOff = true;
+
+    if (
+      !(await generationRecords.attachPrediction(
+        reservationId,
+        result.id,
+        provider.name
+      ))
+    ) {
+      // Canceled while the prediction was being created - stop it again. The
+      // cancel already settled and refunded the generation.
+      await provider
+        .cancel(result.id)
+        .catch((cancelError) =>
+          console.error(`🚀 GENERATE: Failed to cancel prediction ${result.id}:`, cancelError)
+        );
+      const record = await generationRecords.findById(reservationId);
+      console.log(`🚀 GENERATE: Generation ${reservationId} was ${record?.status ?? "canceled"} while starting`);
+
+      return {
+        started: false,
+        error:
+          record?.status === "failed"
+            ? record.error ?? "Generation failed"
+            : "Generation was canceled",
+        status: 409,
+      };
+    }
+
+    await generationRecords.linkCreditEvent(
+      { id: reservationId, user_id: userId },
+      result.id
+    );
+
+    return {
+      started: true,
+      generationId: reservationId,
+      predictionId: result.id,
+      queuePosition: null,
+      labubuName,
+      credits: creditReservation.credits,
+      creditTier: creditReservation.credit_tier ?? "paid",
+    };
+  } catch (error) {
+    // Nothing was started or queued, so the reserved credit goes back
+    if (!handedOff) {
+      await generationRecords.markFailed(
+        reservationId,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      await releaseReservation(reservation);
+    }
+    throw error;
+  }
+}
+
+// Return reserved credits when the prediction could not be started
+async function releaseReservation(reservation: ReservationRef): Promise<void> {
+  const { error } = await supabaseAdmin!.rpc("release_generation_credit", {
+    auth_id: reservation.authId,
+    reservation_id: reservation.reservationId,
+    amount: reservation.amount,
+    description: "Generation could not be started - credit refunded",
+  });
+
+  if (error) {
+    console.error("🚀 GENERATE: Failed to release reserved credit:", error);
+  }
+}
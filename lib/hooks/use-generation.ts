@@ -0,0 +1,728 @@
+// lib/hooks/use-generation.ts
+// The editor's generation flow on top of GenerationService: credit checks,
+// starting single and "try all" generations, progress, the timeout, cancel,
+// resuming after a reload and saving results to history. The page only
+// renders the state and reacts to the callbacks.
+import React, { useState } from "react";
+import { imageStorage } from "@/lib/storage";
+import { imageUtils } from "@/lib/utils";
+import { APIError, errorHandler } from "@/lib/errors";
+import {
+  generationService,
+  getBatchPollingKey,
+  type BatchStatusResponse,
+  type StatusResponse,
+} from "@/lib/generation";
+import { AI_CONFIG, type OutputOptions } from "@/lib/config";
+import { useUserStore } from "@/lib/stores/user-store";
+import {
+  isResumable,
+  useGenerationStore,
+  type ActiveGeneration,
+} from "@/lib/stores/generation-store";
+
+// A downloaded output, with a data URL for display
+export interface ResultVariant {
+  dataUrl: string;
+  blob: Blob;
+  // The main Labubu - differs between the results of a "try all" batch
+  labubuId: number;
+}
+
+export interface GenerationSettings {
+  photo: File;
+  // Main Labubu first
+  labubuIds: number[];
+  pose: string;
+  style: string;
+  numOutputs: number;
+  extraPrompt?: string;
+  output: OutputOptions;
+  parentGenerationId?: string | null;
+  // One generation per Labubu instead of one photo with all of them
+  batch?: boolean;
+}
+
+export interface GenerationResult {
+  variants: ResultVariant[];
+  // What generating again links to - null for batches and test photos
+  generationId: string | null;
+}
+
+export interface UseGenerationOptions {
+  // Credits checked - the previous result can be cleared
+  onStart?: () => void;
+  onComplete: (result: GenerationResult) => void;
+  // A message for the user, including batches that partly failed
+  onError: (message: string) => void;
+  onInsufficientCredits: () => void;
+  // A generation from before a reload is picked back up
+  onResume?: (generation: ActiveGeneration, photo: Blob | null) => void;
+}
+
+// Prevent waiting forever (3 minutes for Nano Banana Pro). Restarted while
+// queued - the server refunds generations stuck there.
+const GENERATION_TIMEOUT_MS = 180000;
+
+// After that, a generation still running server-side is picked back up this
+// often, for as long as it's resumable
+const RESUME_RETRY_MS = 60000;
+
+// Photo, Labubu and generation a single result is saved to history with. The
+// photo can be missing when resuming after a reload.
+interface ResultSource {
+  photo: Blob | null;
+  labubuId: number;
+  // Every Labubu in the photo, main first
+  labubuIds?: number[];
+  generationId?: string;
+}
+
+// Key the generation service polls (or streams) a generation under
+function getPollingKey(generation: ActiveGeneration): string {
+  return generation.kind === "batch"
+    ? getBatchPollingKey(generation.id)
+    : generation.id;
+}
+
+export function getStatusMessage(status: StatusResponse): string {
+  switch (status.status) {
+    case "queued":
+      return "🕒 Waiting for a free spot...";
+    case "starting":
+      return "🚀 Getting ready to create magic...";
+    case "processing":
+      if (status.progress < 20) return "🎨 AI is analyzing your photo...";
+      if (status.progress < 50) return "✨ Blending you with your Labubu...";
+      if (status.progress < 80) return "🎭 Adding the finishing touches...";
+      return "🌟 Almost ready to reveal your photo...";
+    default:
+      return status.status || "processing";
+  }
+}
+
+export function getBatchStatusMessage(status: BatchStatusResponse): string {
+  return status.queued > 0
+    ? `✨ ${status.completed} of ${status.total} Labubus done, ${status.queued} waiting for a free spot...`
+    : `✨ ${status.completed} of ${status.total} Labubus done...`;
+}
+
+// Position of the batch item that starts next
+export function getNextQueuePosition(
+  status: BatchStatusResponse
+): number | null {
+  const positions = status.items.flatMap((item) =>
+    item.queue_position ? [item.queue_position] : []
+  );
+  return positions.length > 0 ? Math.min(...positions) : null;
+}
+
+async function saveToHistory(
+  photo: Blob | null,
+  results: {
+    blob: Blob;
+    labubuId: number;
+    labubuIds?: number[];
+    generationId?: string;
+    batchId?: string;
+  }[]
+): Promise<void> {
+  if (!photo) {
+    console.warn("⚠️ Original photo missing, not saved to history");
+    return;
+  }
+
+  for (const { blob, labubuId, labubuIds, generationId, batchId } of results) {
+    await imageStorage.saveImage(photo, blob, labubuId, {
+      labubuIds,
+      generationId,
+      batchId,
+    });
+  }
+}
+
+export function useGeneration(options: UseGenerationOptions) {
+  const { user, credits, isInitialized, refreshCredits, spendCredit } =
+    useUserStore();
+  // Persisted, so a generation survives a page reload
+  const { activeGeneration, setActiveGeneration, clearActiveGeneration } =
+    useGenerationStore();
+
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [estimatedTime, setEstimatedTime] = useState(0);
+  const [status, setStatus] = useState("");
+  // Set while the generation waits for a free slot on the server
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+
+  // Polls outlive renders - always call the latest callbacks
+  const optionsRef = React.useRef(options);
+  React.useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  // Timeout state - use a ref to persist across renders
+  const timeoutRef = React.useRef<NodeJS.Timeout | null>(null);
+
+  const clearGenerationTimeout = React.useCallback(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  }, []);
+
+  // Set once a generation has timed out on the client, see RESUME_RETRY_MS
+  const resumeRetryRef = React.useRef<NodeJS.Timeout | null>(null);
+  // Resuming needs the watchers, which need armTimeout - break the cycle
+  const resumeRef = React.useRef<(generation: ActiveGeneration) => void>(
+    () => {}
+  );
+
+  const clearResumeRetry = React.useCallback(() => {
+    if (resumeRetryRef.current) {
+      clearTimeout(resumeRetryRef.current);
+      resumeRetryRef.current = null;
+    }
+  }, []);
+
+  const stopPolling = React.useCallback(
+    (key: string) => {
+      generationService.stopPolling(key);
+      clearGenerationTimeout();
+      console.log(`🛑 Stopped polling for prediction: ${key}`);
+    },
+    [clearGenerationTimeout]
+  );
+
+  // Cleanup on unmount - the generation itself stays persisted
+  React.useEffect(() => {
+    return () => {
+      clearResumeRetry();
+      if (activeGeneration) {
+        stopPolling(getPollingKey(activeGeneration));
+      }
+    };
+  }, [activeGeneration, stopPolling, clearResumeRetry]);
+
+  const begin = (message: string) => {
+    clearResumeRetry();
+    setIsGenerating(true);
+    setProgress(0);
+    setEstimatedTime(45);
+    setStatus(message);
+  };
+
+  // Back to idle, but the generation stays persisted - it's resumed on the
+  // next visit while it's inside the resume window
+  const release = React.useCallback(() => {
+    clearGenerationTimeout();
+    setIsGenerating(false);
+    setProgress(0);
+    setEstimatedTime(0);
+    setStatus("");
+    setQueuePosition(null);
+  }, [clearGenerationTimeout]);
+
+  // Back to idle. The generation is over (or canceled), so there's nothing
+  // left to resume.
+  const finish = React.useCallback(() => {
+    release();
+    clearResumeRetry();
+    clearActiveGeneration();
+    imageStorage.clearPendingPhotos().catch(console.error);
+  }, [release, clearResumeRetry, clearActiveGeneration]);
+
+  const reportError = React.useCallback((err: unknown) => {
+    const appError = errorHandler.parseError(err);
+    optionsRef.current.onError(errorHandler.getUserMessage(appError));
+  }, []);
+
+  const armTimeout = React.useCallback(
+    (key: string, message: string) => {
+      clearGenerationTimeout();
+      timeoutRef.current = setTimeout(() => {
+        console.log(`⏰ Status timeout reached for ${key}`);
+        stopPolling(key);
+        optionsRef.current.onError(message);
+        // Still running server-side - keep it persisted and check back later
+        release();
+        clearResumeRetry();
+        resumeRetryRef.current = setTimeout(() => {
+          resumeRetryRef.current = null;
+          const generation = useGenerationStore.getState().activeGeneration;
+          // Unless another generation has been started since
+          if (generation && getPollingKey(generation) === key) {
+            resumeRef.current(generation);
+          }
+        }, RESUME_RETRY_MS);
+      }, GENERATION_TIMEOUT_MS);
+    },
+    [clearGenerationTimeout, stopPolling, release, clearResumeRetry]
+  );
+
+  const watchGeneration = React.useCallback(
+    (predictionId: string, source: ResultSource) => {
+      console.log(`🚀 Streaming status for prediction: ${predictionId}`);
+
+      // The prediction keeps running server-side; if it fails the credit is refunded automatically
+      const timeoutMessage =
+        "Generation is taking longer than expected. It's still running - we'll keep checking and add it to your history when it's ready. If it doesn't finish, your credit will be refunded automatically.";
+
+      generationService.startStreaming(
+        predictionId,
+
+        // Progress callback
+        (update) => {
+          console.log(`📊 Status:`, update);
+          setProgress(update.progress);
+          setEstimatedTime(update.estimated_time || 0);
+          setStatus(getStatusMessage(update));
+          setQueuePosition(
+            update.status === "queued" ? (update.queue_position ?? null) : null
+          );
+          if (update.status === "queued") {
+            armTimeout(predictionId, timeoutMessage);
+          }
+        },
+
+        // Complete callback
+        async (update) => {
+          console.log(`✅ Generation completed successfully!`);
+          clearGenerationTimeout();
+          if (update.output_options_applied === false) {
+            console.warn(`⚠️ Output options could not be applied - showing the image as generated`);
+          }
+
+          try {
+            // Download every variant and convert to data URLs for display
+            const downloaded = await generationService.downloadVariants(
+              update.output
+            );
+            const variants = await Promise.all(
+              downloaded.map(async ({ blob }) => ({
+                dataUrl: await imageUtils.blobToBase64(blob),
+                blob,
+                labubuId: source.labubuId,
+              }))
+            );
+
+            optionsRef.current.onComplete({
+              variants,
+              generationId: source.generationId ?? null,
+            });
+
+            await saveToHistory(
+              source.photo,
+              variants.map(({ blob }) => ({
+                blob,
+                labubuId: source.labubuId,
+                labubuIds: source.labubuIds,
+                generationId: source.generationId,
+              }))
+            );
+          } catch (err) {
+            console.error("❌ Failed to load generated image:", err);
+            reportError(err);
+          }
+
+          finish();
+        },
+
+        // Error callback
+        (err) => {
+          console.error("❌ Generation error:", err);
+          // The server refunds failed generations - just sync the balance
+          refreshCredits().catch(console.error);
+          reportError(err);
+          finish();
+        }
+      );
+
+      armTimeout(predictionId, timeoutMessage);
+    },
+    [armTimeout, clearGenerationTimeout, finish, refreshCredits, reportError]
+  );
+
+  // Results of a "try all" batch land in history as one group
+  const watchBatch = React.useCallback(
+    (batchId: string, photo: Blob | null) => {
+      const key = getBatchPollingKey(batchId);
+      console.log(`🚀 Polling batch: ${batchId}`);
+
+      // Items run in parallel, so a batch gets the same time limit as one
+      // generation - counted from when its last queued item started
+      const timeoutMessage =
+        "Generation is taking longer than expected. It's still running - we'll keep checking and add the results to your history when they're ready. Anything that doesn't finish will be refunded automatically.";
+
+      generationService.pollBatch(
+        batchId,
+
+        // Progress callback
+        (update) => {
+          setProgress(update.progress);
+          setEstimatedTime(update.estimated_time || 0);
+          setStatus(getBatchStatusMessage(update));
+          setQueuePosition(getNextQueuePosition(update));
+          if (update.queued > 0) {
+            armTimeout(key, timeoutMessage);
+          }
+        },
+
+        // Complete callback - every item has settled and at least one succeeded
+        async (update) => {
+          console.log(
+            `✅ Batch completed: ${update.succeeded}/${update.total} succeeded`
+          );
+          clearGenerationTimeout();
+
+          try {
+            // One image per Labubu - skip any that fail to download
+            const settled = await Promise.allSettled(
+              update.items
+                .filter((item) => item.status === "succeeded")
+                .map(async (item) => {
+                  const [first] = await generationService.downloadVariants(
+                    item.output
+                  );
+                  return {
+                    dataUrl: await imageUtils.blobToBase64(first.blob),
+                    blob: first.blob,
+                    labubuId: item.labubu_id,
+                    generationId: item.generation_id,
+                  };
+                })
+            );
+            const loaded = settled.flatMap((result) =>
+              result.status === "fulfilled" ? [result.value] : []
+            );
+            if (loaded.length === 0) {
+              throw new Error("Failed to download the generated images");
+            }
+
+            optionsRef.current.onComplete({
+              variants: loaded.map(({ dataUrl, blob, labubuId }) => ({
+                dataUrl,
+                blob,
+                labubuId,
+              })),
+              generationId: null,
+            });
+
+            await saveToHistory(
+              photo,
+              loaded.map(({ blob, labubuId, generationId }) => ({
+                blob,
+                labubuId,
+                generationId,
+                batchId,
+              }))
+            );
+
+            if (update.failed > 0) {
+              // Failed items were refunded server-side
+              refreshCredits().catch(console.error);
+              optionsRef.current.onError(
+                `${update.failed} of ${update.total} Labubus couldn't be generated - those credits were refunded.`
+              );
+            }
+          } catch (err) {
+            console.error("❌ Failed to load batch images:", err);
+            reportError(err);
+          }
+
+          finish();
+        },
+
+        // Error callback
+        (err) => {
+          console.error("❌ Batch error:", err);
+          refreshCredits().catch(console.error);
+          reportError(err);
+          finish();
+        }
+      );
+
+      armTimeout(key, timeoutMessage);
+    },
+    [armTimeout, clearGenerationTimeout, finish, refreshCredits, reportError]
+  );
+
+  // Follow a persisted generation again - after a reload, or a client timeout
+  const resumeGeneration = React.useCallback(
+    (generation: ActiveGeneration) => {
+      if (!isResumable(generation)) {
+        finish();
+        return;
+      }
+
+      console.log(`🔄 Resuming ${generation.kind} generation: ${generation.id}`);
+      const resume = async () => {
+        const photo = await imageStorage
+          .getPendingPhoto(generation.id)
+          .catch(() => null);
+        optionsRef.current.onResume?.(generation, photo);
+
+        setIsGenerating(true);
+        setProgress(0);
+        setStatus("🔄 Picking up where you left off...");
+
+        if (generation.kind === "batch") {
+          watchBatch(generation.id, photo);
+        } else {
+          watchGeneration(generation.id, {
+            photo,
+            labubuId: generation.labubuId,
+            labubuIds: generation.labubuIds,
+            generationId: generation.generationId,
+          });
+        }
+      };
+      resume().catch(console.error);
+    },
+    [finish, watchGeneration, watchBatch]
+  );
+
+  React.useEffect(() => {
+    resumeRef.current = resumeGeneration;
+  }, [resumeGeneration]);
+
+  // Pick up a generation that was running when the page was reloaded, once
+  const hasResumedRef = React.useRef(false);
+  React.useEffect(() => {
+    if (!isInitialized || !user || hasResumedRef.current) return;
+    hasResumedRef.current = true;
+
+    const generation = useGenerationStore.getState().activeGeneration;
+    if (generation) {
+      resumeGeneration(generation);
+    }
+  }, [isInitialized, user, resumeGeneration]);
+
+  // Check credits, start the generation (or batch) - the server reserves the
+  // credits - and follow it until it finishes
+  const generate = async (settings: GenerationSettings) => {
+    const { photo, labubuIds, batch } = settings;
+    const cost =
+      (batch ? labubuIds.length : settings.numOutputs) *
+      AI_CONFIG.CREDITS_PER_OUTPUT;
+
+    // Check if user has credits for every requested variant
+    if (!user || credits < cost) {
+      console.log("❌ Insufficient credits");
+      optionsRef.current.onInsufficientCredits();
+      return;
+    }
+
+    console.log(`✅ User has ${credits} credits, proceeding with generation`);
+    optionsRef.current.onStart?.();
+    begin("Initializing...");
+
+    try {
+      // Upload the photo to storage; fall back to base64 when uploads aren't configured
+      const imageKey = await generationService.uploadImage(photo);
+      const imageBase64 = imageKey
+        ? undefined
+        : await imageUtils.fileToBase64(photo);
+      console.log(
+        imageKey
+          ? `📷 Image uploaded as ${imageKey}`
+          : `📷 Image converted to base64`
+      );
+
+      if (batch) {
+        // One generation per Labubu - the server reserves a credit for each
+        const batchResult = await generationService.startBatch({
+          image_key: imageKey ?? undefined,
+          image: imageBase64,
+          labubu_ids: labubuIds,
+          pose: settings.pose,
+          style: settings.style,
+          extra_prompt: settings.extraPrompt,
+          output_format: settings.output.format,
+          aspect_ratio: settings.output.aspectRatio,
+          upscale: settings.output.upscale,
+        });
+        console.log(`✅ Batch started:`, batchResult);
+
+        // Persist so a reload can resume it
+        await imageStorage
+          .savePendingPhoto(batchResult.batch_id, photo)
+          .catch(console.error);
+        setActiveGeneration({
+          kind: "batch",
+          id: batchResult.batch_id,
+          // Queued items are canceled by generation id
+          predictionIds: batchResult.items.flatMap((item) => {
+            const id = item.prediction_id ?? item.generation_id;
+            return id ? [id] : [];
+          }),
+          startedAt: Date.now(),
+        });
+        refreshCredits().catch(console.error);
+        watchBatch(batchResult.batch_id, photo);
+        return;
+      }
+
+      const result = await generationService.startGeneration({
+        image_key: imageKey ?? undefined,
+        image: imageBase64,
+        labubu_id: labubuIds[0],
+        labubu_ids: labubuIds,
+        pose: settings.pose,
+        style: settings.style,
+        num_outputs: settings.numOutputs,
+        extra_prompt: settings.extraPrompt,
+        output_format: settings.output.format,
+        aspect_ratio: settings.output.aspectRatio,
+        upscale: settings.output.upscale,
+        parent_generation_id: settings.parentGenerationId ?? undefined,
+      });
+      console.log(`✅ Generation started:`, result);
+      const predictionId = result.prediction_id;
+
+      // Persist so a reload can resume it
+      await imageStorage
+        .savePendingPhoto(predictionId, photo)
+        .catch(console.error);
+      setActiveGeneration({
+        kind: "single",
+        id: predictionId,
+        generationId: result.generation_id,
+        labubuId: labubuIds[0],
+        labubuIds,
+        startedAt: Date.now(),
+      });
+
+      // Credit was spent server-side, sync the balance
+      refreshCredits().catch(console.error);
+
+      watchGeneration(predictionId, {
+        photo,
+        labubuId: labubuIds[0],
+        labubuIds,
+        generationId: result.generation_id,
+      });
+    } catch (err) {
+      console.error("❌ Generation error:", err);
+      if (err instanceof APIError && err.code === "INSUFFICIENT_CREDITS") {
+        await refreshCredits();
+        optionsRef.current.onInsufficientCredits();
+      } else {
+        reportError(err);
+      }
+      finish();
+    }
+  };
+
+  // Test photos have pre-rendered results, so generating one is simulated.
+  // It still costs a credit.
+  const generateTestPhoto = async (testPhotoUrl: string, labubuId: number) => {
+    if (!user || credits < 1) {
+      console.log("❌ Insufficient credits");
+      optionsRef.current.onInsufficientCredits();
+      return;
+    }
+
+    const testPhotoNumber = testPhotoUrl.match(/original(\d+)/)?.[1];
+    console.log(`🧪 Test mode: Using test photo ${testPhotoNumber}`);
+    optionsRef.current.onStart?.();
+    begin("Initializing...");
+
+    // Generate a unique prediction ID for test photos
+    const testPredictionId = `test_${Date.now()}_${Math.random()
+      .toString(36)
+      .substring(7)}`;
+
+    try {
+      console.log(`💰 Spending 1 credit for test photo: ${testPredictionId}`);
+      if (!(await spendCredit(testPredictionId))) {
+        throw new Error("Credit not spent");
+      }
+    } catch (spendError) {
+      console.error("Failed to spend credit for test photo:", spendError);
+      optionsRef.current.onError("Failed to spend credit. Please try again.");
+      finish();
+      return;
+    }
+
+    const messages = [
+      "🎨 AI is analyzing your photo...",
+      "✨ Blending you with your Labubu...",
+      "🎭 Adding the finishing touches...",
+      "🌟 Almost ready to reveal your photo...",
+    ];
+    let messageIndex = 0;
+
+    const progressInterval = setInterval(() => {
+      setProgress((prev) => Math.min(prev + 20, 100));
+    }, 1000);
+
+    const messageInterval = setInterval(() => {
+      if (messageIndex < messages.length) {
+        setStatus(messages[messageIndex]);
+        messageIndex++;
+      }
+    }, 1250);
+
+    setTimeout(() => {
+      clearInterval(progressInterval);
+      clearInterval(messageInterval);
+      setProgress(100);
+      setStatus("✅ Test generation complete!");
+
+      setTimeout(async () => {
+        try {
+          const response = await fetch(
+            `/test-photos/generated${testPhotoNumber}_labubu${labubuId}.svg`
+          );
+          const blob = await response.blob();
+          optionsRef.current.onComplete({
+            variants: [
+              { dataUrl: await imageUtils.blobToBase64(blob), blob, labubuId },
+            ],
+            generationId: null,
+          });
+        } catch (err) {
+          console.error("❌ Failed to load test result:", err);
+          reportError(err);
+        }
+        finish();
+      }, 200);
+    }, 5000);
+  };
+
+  const cancel = () => {
+    console.log(`🛑 User cancelled generation`);
+    if (activeGeneration?.kind === "single") {
+      stopPolling(activeGeneration.id);
+      // The server stops the prediction and refunds the credit
+      generationService
+        .cancelGeneration(activeGeneration.id)
+        .then(() => refreshCredits())
+        .catch(console.error);
+    }
+    if (activeGeneration?.kind === "batch") {
+      stopPolling(getBatchPollingKey(activeGeneration.id));
+      // Each started item is cancelled and refunded on its own
+      Promise.all(
+        activeGeneration.predictionIds.map((predictionId) =>
+          generationService.cancelGeneration(predictionId)
+        )
+      )
+        .then(() => refreshCredits())
+        .catch(console.error);
+    }
+    finish();
+  };
+
+  return {
+    isGenerating,
+    progress,
+    estimatedTime,
+    status,
+    queuePosition,
+    generate,
+    generateTestPhoto,
+    cancel,
+  };
+}
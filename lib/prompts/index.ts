@@ -0,0 +1,84 @@
+// lib/prompts/index.ts
+// Prompt template assignment for A/B testing. Users are split across the
+// templates in rotation by a stable hash of their id, so the same user always
+// gets the same variant (including on retries and later generations)
+import crypto from "crypto";
+import { getStylePreset } from "@/lib/config";
+import {
+  PROMPT_TEMPLATES,
+  type PromptTemplate,
+} from "@/lib/prompts/templates";
+
+export * from "@/lib/prompts/templates";
+export * from "@/lib/prompts/moderation";
+
+// Changing the salt reshuffles every user into a new split
+const ASSIGNMENT_SALT = "prompt-templates-1";
+
+export function getPromptTemplate(id: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find((template) => template.id === id);
+}
+
+/**
+ * Pick the prompt template for a user. PROMPT_TEMPLATE (a template id) pins
+ * everyone to one template, e.g. for local testing or rolling back a variant.
+ */
+export function assignPromptTemplate(userId: string): PromptTemplate {
+  const pinned = process.env.PROMPT_TEMPLATE
+    ? getPromptTemplate(process.env.PROMPT_TEMPLATE)
+    : undefined;
+  if (pinned) {
+    return pinned;
+  }
+
+  const inRotation = PROMPT_TEMPLATES.filter((template) => template.weight > 0);
+  const totalWeight = inRotation.reduce(
+    (sum, template) => sum + template.weight,
+    0
+  );
+
+  // First 32 bits of the hash as a uniform point in [0, totalWeight)
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${ASSIGNMENT_SALT}:${userId}`)
+    .digest();
+  const point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+  let cumulative = 0;
+  for (const template of inRotation) {
+    cumulative += template.weight;
+    if (point < cumulative) {
+      return template;
+    }
+  }
+
+  return inRotation[inRotation.length - 1];
+}
+
+/**
+ * Restyle a built prompt with a STYLE_PRESETS entry. The templates all describe
+ * photoreal compositing, so the default style leaves the prompt untouched.
+ */
+export function applyStylePreset(prompt: string, styleId: string): string {
+  const style = getStylePreset(styleId);
+  if (!style?.prompt) {
+    return prompt;
+  }
+
+  return `${prompt}\n\nStyle: render the entire final image as ${style.prompt}. This replaces the photographic-realism requirements above, but keep the composition and placements, keep the person recognisable, and keep each Labubu's colors and outfit from its reference image.`;
+}
+
+/**
+ * Append a moderated user addition (see moderateExtraPrompt) to a built prompt.
+ * It goes last and is framed as secondary so it can't outweigh the template.
+ */
+export function appendExtraPrompt(
+  prompt: string,
+  extraPrompt: string | null | undefined
+): string {
+  if (!extraPrompt) {
+    return prompt;
+  }
+
+  return `${prompt}\n\nAdditional style instruction from the user (apply only where it doesn't conflict with the requirements above): ${extraPrompt}`;
+}
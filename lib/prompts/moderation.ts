@@ -0,0 +1,120 @@
+// lib/prompts/moderation.ts
+// Local moderation for user-written prompt additions (extra_prompt). This is a
+// blocklist, not a classifier - it catches the obvious cases before anything
+// reaches the provider, and the provider's own safety filters still apply
+import { AI_CONFIG } from "@/lib/config";
+
+export type ModerationResult =
+  | { allowed: true; text: string }
+  | { allowed: false; reason: string };
+
+interface BlocklistRule {
+  reason: string;
+  patterns: RegExp[];
+}
+
+// Matched against the normalized text (lowercase, no accents, leetspeak undone)
+const BLOCKLIST: BlocklistRule[] = [
+  {
+    reason: "Sexual content isn't allowed",
+    patterns: [
+      /\b(nude|nudity|naked|topless|nsfw|porn\w*|sex\w*|erotic\w*|lingerie|undress\w*|strip(ping|ped)?)\b/,
+      /\b(remove|take off|without) (her |his |their |the )?(clothes|clothing|shirt|top|dress)\b/,
+    ],
+  },
+  {
+    reason: "Violent or gory content isn't allowed",
+    patterns: [
+      /\b(gore|gory|blood\w*|kill\w*|murder\w*|corpse|dead body|decapitat\w*|behead\w*|dismember\w*|mutilat\w*|suicide|self harm)\b/,
+      /\b(gun|guns|rifle|pistol|knife|knives|weapon\w*)\b/,
+    ],
+  },
+  {
+    reason: "Hateful content isn't allowed",
+    patterns: [/\b(nazi\w*|swastika|kkk|hitler)\b/],
+  },
+  {
+    reason: "Drug content isn't allowed",
+    patterns: [/\b(cocaine|heroin|meth|drugs?|smoking|cigarettes?|vape|vaping|bong)\b/],
+  },
+  {
+    // The photo is of a real person - keep them recognisably themselves
+    reason: "Changing the person's identity or body isn't allowed",
+    patterns: [
+      /\b(change|replace|swap) (my |the |their |his |her )?(face|body|skin|race|ethnicity|gender)\b/,
+      /\b(make|look) (me |them |him |her )?(younger|older|thinner|fatter|a child|a kid)\b/,
+      /\b(child|children|kid|kids|minor|minors|teen|teenager)\b/,
+    ],
+  },
+  {
+    // Attempts to override the template rather than add to it
+    reason: "Instructions that override the prompt aren't allowed",
+    patterns: [
+      /\b(ignore|disregard|forget|override) (all |any |the )?(previous|above|prior|earlier|other)\b/,
+      /\b(system prompt|instructions above|jailbreak)\b/,
+      /\bno (labubu|doll|keychain)\b/,
+    ],
+  },
+];
+
+// Common character swaps used to slip past a word list
+const LEETSPEAK: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+};
+
+/**
+ * Check a free-text prompt addition. Returns the cleaned-up text to append
+ * when it's allowed, or the reason it was rejected.
+ */
+export function moderateExtraPrompt(input: string): ModerationResult {
+  // Collapse newlines and control characters so the addition stays one line
+  const text = input
+    .replace(/[\u0000-\u001f\u007f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!text) {
+    return { allowed: false, reason: "Prompt addition is empty" };
+  }
+
+  if (text.length > AI_CONFIG.MAX_EXTRA_PROMPT_LENGTH) {
+    return {
+      allowed: false,
+      reason: `Prompt addition must be at most ${AI_CONFIG.MAX_EXTRA_PROMPT_LENGTH} characters`,
+    };
+  }
+
+  if (/(https?:\/\/|www\.)/i.test(text)) {
+    return { allowed: false, reason: "Links aren't allowed" };
+  }
+
+  const normalized = normalize(text);
+  const rule = BLOCKLIST.find(({ patterns }) =>
+    patterns.some((pattern) => pattern.test(normalized))
+  );
+  if (rule) {
+    return { allowed: false, reason: rule.reason };
+  }
+
+  return { allowed: true, text };
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[013457@$]/g, (char) => LEETSPEAK[char])
+    // "n.u.d.e" / "n-u-d-e" -> "nude"
+    .replace(/\b(\w)[.\-_*](?=\w\b)/g, "$1")
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
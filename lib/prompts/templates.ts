@@ -0,0 +1,163 @@
+// lib/prompts/templates.ts
+// Versioned prompt templates. Each generation records the template id as its
+// prompt_version, so never change a template's output in place - add a new
+// entry and retire the old one by setting its weight to 0
+import {
+  DEFAULT_POSE,
+  LABUBU_OPTIONS,
+  POSE_PRESETS,
+  getPosePreset,
+  type LabubuOption,
+} from "@/lib/config";
+
+export interface PromptTemplate {
+  // Stored on each generation as prompt_version
+  id: string;
+  description: string;
+  // Relative share of users assigned to this template; 0 takes it out of rotation
+  weight: number;
+  // Labubu ids in reference image order (main one first)
+  build(labubuIds: number[], poseId: string): string;
+}
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "v3",
+    description: "Detailed requirement list per Labubu type, pose and scene",
+    weight: 1,
+    build: buildDetailedPrompt,
+  },
+  {
+    id: "v4-concise",
+    description: "One-paragraph scene description with the same placements",
+    weight: 1,
+    build: buildConcisePrompt,
+  },
+];
+
+// v3: enhanced prompting strategy for different Labubu types
+// Several ids build a scene prompt; reference images follow the person photo in the same order.
+// The pose applies to the first (main) Labubu.
+function buildDetailedPrompt(labubuIds: number[], poseId: string): string {
+  if (labubuIds.length > 1) {
+    return generateScenePrompt(labubuIds, poseId);
+  }
+
+  const labubu = LABUBU_OPTIONS.find((l) => l.id === labubuIds[0]);
+
+  if (labubu && poseId !== DEFAULT_POSE) {
+    return generatePosePrompt(labubu, poseId);
+  }
+
+  if (labubu?.type === "keychain") {
+    return `Seamlessly integrate a small Labubu keychain (7.8 inches tall, 2.7 inches wide) into the person's existing visible hands in this photo. Requirements:
+- Use ONLY the hands already visible in the photo - do not add extra hands or limbs
+- Person holds the keychain naturally with realistic hand positioning and grip
+- If only one hand is visible (e.g., selfie), use that single hand to hold the keychain
+- Keychain appears at correct scale relative to human hands
+- Maintain all original lighting, shadows, and color temperature
+- Preserve person's exact facial features, clothing, pose, and background
+- Add subtle cast shadows from the keychain onto hands/clothing
+- Match the keychain's material properties (likely vinyl/plastic with slight sheen)
+- Ensure the keychain's proportions look believable for the person's hand size
+- Blend seamlessly as if photographed together originally`;
+  } else {
+    return `Seamlessly integrate a Labubu doll (14.5 inches tall, 7.8 inches wide) into the person's existing visible hands in this photo. Requirements:
+- Use ONLY the hands already visible in the photo - do not add extra hands or limbs
+- If both hands visible: person holds doll with both hands in comfortable grip
+- If only one hand visible (e.g., selfie): person holds doll with that single hand against their body/chest for support
+- Doll appears at correct scale - significant but not oversized for human hands
+- Maintain all original lighting conditions, shadows, and ambient color
+- Preserve person's exact facial expression, clothing, pose, and entire background
+- Add realistic cast shadows from the doll onto the person and surroundings
+- Match doll's vinyl/plastic material properties with appropriate surface reflection
+- Ensure hand positioning looks natural for holding an object of this size and weight
+- Create perfect photographic integration as if taken in a single shot`;
+  }
+}
+
+// Single Labubu in a non-default pose
+function generatePosePrompt(labubu: LabubuOption, poseId: string): string {
+  return `Seamlessly integrate a Labubu ${labubu.type} (${getLabubuSize(labubu.type)}) into this photo of a person, ${getPlacement(poseId, labubu.type)}. Requirements:
+- Use ONLY the hands already visible in the photo - do not add extra hands or limbs
+- The ${labubu.type} appears at correct scale relative to the person and its surroundings
+- It must be visibly supported (held, seated or clipped) - never floating
+- Maintain all original lighting conditions, shadows, and ambient color
+- Preserve person's exact facial expression, clothing, pose, and entire background
+- Add realistic cast shadows from the ${labubu.type} onto the person and surroundings
+- Match the vinyl/plastic material properties with appropriate surface reflection
+- Create perfect photographic integration as if taken in a single shot`;
+}
+
+// Composite prompt for several Labubus: the main one follows the pose, the
+// rest are placed where a real person would carry them
+function generateScenePrompt(labubuIds: number[], poseId: string): string {
+  const labubus = getLabubus(labubuIds);
+
+  const placements = labubus.map((labubu, index) => {
+    const reference = `the ${labubu.name} ${labubu.type} from image ${index + 2}`;
+    const size = getLabubuSize(labubu.type);
+
+    const placement =
+      index === 0
+        ? getPlacement(poseId, labubu.type)
+        : getSecondaryPlacement(labubu.type);
+    return `- Place ${reference} (${size}) ${placement}`;
+  });
+
+  return `Seamlessly integrate ${labubus.length} Labubu figures into this photo of a person. Image 1 is the person; the following images are the Labubus to add, in order:
+${placements.join("\n")}
+Requirements:
+- Use ONLY the hands already visible in the photo - do not add extra hands or limbs
+- Every Labubu must appear exactly once, keeping its own colors and outfit from its reference image
+- Keep each Labubu at correct scale relative to the person and to each other
+- Labubus must not overlap the person's face
+- Maintain all original lighting conditions, shadows, and ambient color
+- Preserve person's exact facial expression, clothing, pose, and entire background
+- Add realistic cast shadows from each Labubu onto the person and surroundings
+- Match the vinyl/plastic material properties with appropriate surface reflection
+- Create perfect photographic integration as if taken in a single shot`;
+}
+
+// Where a Labubu goes for a pose, falling back to holding it
+function getPlacement(poseId: string, labubuType: LabubuOption["type"]): string {
+  const placements: Partial<Record<LabubuOption["type"], string>> =
+    getPosePreset(poseId)?.placements ?? {};
+  return placements[labubuType] ?? POSE_PRESETS[0].placements[labubuType];
+}
+
+// Where the other Labubus in a scene go
+function getSecondaryPlacement(labubuType: LabubuOption["type"]): string {
+  return labubuType === "doll"
+    ? "tucked under the person's arm or seated on their shoulder, visibly supported so it doesn't float"
+    : "clipped to a bag strap, belt loop or zipper already in the photo; if none is visible, let it dangle by its chain from the person's free hand";
+}
+
+function getLabubus(labubuIds: number[]): LabubuOption[] {
+  return labubuIds.map((id) => {
+    const labubu = LABUBU_OPTIONS.find((l) => l.id === id);
+    if (!labubu) {
+      throw new Error(`Labubu with ID ${id} not found`);
+    }
+    return labubu;
+  });
+}
+
+function getLabubuSize(labubuType: LabubuOption["type"]): string {
+  return labubuType === "doll"
+    ? "14.5 inches tall, 7.8 inches wide"
+    : "7.8 inches tall, 2.7 inches wide";
+}
+
+// v4-concise: the same placements as v3 in a single short paragraph
+function buildConcisePrompt(labubuIds: number[], poseId: string): string {
+  const placements = getLabubus(labubuIds).map((labubu, index) => {
+    const placement =
+      index === 0
+        ? getPlacement(poseId, labubu.type)
+        : getSecondaryPlacement(labubu.type);
+    return `the Labubu ${labubu.type} from image ${index + 2} (${getLabubuSize(labubu.type)}) ${placement}`;
+  });
+
+  return `Edit image 1 so the person appears with ${placements.join("; and ")}. Keep the person's face, expression, body, clothing, pose, background and lighting exactly as they are, use only hands already in the photo, and match scale, cast shadows and the vinyl finish so it looks like a single real photograph.`;
+}
@@ -0,0 +1,29 @@
+// lib/providers/index.ts
+// Provider registry - AI_CONFIG.PROVIDER picks the active one
+import { AI_CONFIG, type ProviderKey } from "@/lib/config";
+import { MockProvider } from "@/lib/providers/mock-provider";
+import { ReplicateProvider } from "@/lib/providers/replicate-provider";
+import type { ImageGenerationProvider } from "@/lib/providers/types";
+
+export * from "@/lib/providers/types";
+
+/**
+ * Get a provider by its AI_CONFIG.PROVIDERS key. Without a key the configured
+ * default is returned; pass a generation's stored provider to keep talking to
+ * the backend that started it.
+ */
+export function getProvider(name?: string | null): ImageGenerationProvider {
+  const key = (name || AI_CONFIG.PROVIDER) as ProviderKey;
+  const config = AI_CONFIG.PROVIDERS[key];
+
+  if (!config) {
+    throw new Error(`Unknown generation provider: ${key}`);
+  }
+
+  switch (config.type) {
+    case "replicate":
+      return new ReplicateProvider(key, config.model);
+    case "mock":
+      return new MockProvider(key, config.model);
+  }
+}
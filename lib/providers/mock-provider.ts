@@ -0,0 +1,144 @@
+// lib/providers/mock-provider.ts
+// In-memory provider for offline development: predictions move through
+// starting -> processing -> succeeded/failed on a timer and the output is a
+// composite of the input images served by /api/mock/output/[id]
+import crypto from "crypto";
+import { MOCK_PROVIDER_CONFIG } from "@/lib/config";
+import type {
+  ImageGenerationProvider,
+  ProviderGenerationInput,
+  ProviderPrediction,
+} from "@/lib/providers/types";
+
+export interface MockPrediction {
+  id: string;
+  input: ProviderGenerationInput;
+  createdAt: number;
+  startDelayMs: number;
+  durationMs: number;
+  willFail: boolean;
+  canceledAt?: number;
+}
+
+// Oldest predictions are dropped past this so a long dev session doesn't leak memory
+const MAX_STORED_PREDICTIONS = 200;
+
+// Kept on globalThis so predictions survive dev-server module reloads
+const globalForMock = globalThis as unknown as {
+  mockPredictions?: Map<string, MockPrediction>;
+};
+
+const predictions =
+  globalForMock.mockPredictions ??
+  (globalForMock.mockPredictions = new Map<string, MockPrediction>());
+
+export function getMockPrediction(id: string): MockPrediction | undefined {
+  return predictions.get(id);
+}
+
+export class MockProvider implements ImageGenerationProvider {
+  constructor(
+    public readonly name: string,
+    public readonly model: string
+  ) {}
+
+  async start(input: ProviderGenerationInput): Promise<ProviderPrediction> {
+    const prediction: MockPrediction = {
+      id: `mock-${crypto.randomUUID()}`,
+      input,
+      createdAt: Date.now(),
+      startDelayMs: MOCK_PROVIDER_CONFIG.START_DELAY_MS,
+      durationMs: MOCK_PROVIDER_CONFIG.DURATION_MS,
+      willFail: Math.random() < MOCK_PROVIDER_CONFIG.FAILURE_RATE,
+    };
+
+    predictions.set(prediction.id, prediction);
+    if (predictions.size > MAX_STORED_PREDICTIONS) {
+      const oldest = predictions.keys().next().value;
+      if (oldest) predictions.delete(oldest);
+    }
+
+    return this.toPrediction(prediction);
+  }
+
+  async getStatus(predictionId: string): Promise<ProviderPrediction | null> {
+    const prediction = predictions.get(predictionId);
+    // Lost on server restart - treated like an unknown prediction
+    return prediction ? this.toPrediction(prediction) : null;
+  }
+
+  async cancel(predictionId: string): Promise<ProviderPrediction> {
+    const prediction = predictions.get(predictionId);
+    if (!prediction) {
+      return {
+        id: predictionId,
+        status: "canceled",
+        completed_at: new Date().toISOString(),
+      };
+    }
+
+    const current = this.toPrediction(prediction);
+    if (current.status === "starting" || current.status === "processing") {
+      prediction.canceledAt = Date.now();
+      return this.toPrediction(prediction);
+    }
+
+    return current;
+  }
+
+  // Derive the state from elapsed time, the same way a real provider would report it
+  private toPrediction(prediction: MockPrediction): ProviderPrediction {
+    const startedAt = prediction.createdAt + prediction.startDelayMs;
+    const completedAt = startedAt + prediction.durationMs;
+    const now = prediction.canceledAt ?? Date.now();
+
+    const base = {
+      id: prediction.id,
+      created_at: new Date(prediction.createdAt).toISOString(),
+      started_at:
+        now >= startedAt ? new Date(startedAt).toISOString() : undefined,
+    };
+
+    if (prediction.canceledAt) {
+      return {
+        ...base,
+        status: "canceled",
+        completed_at: new Date(prediction.canceledAt).toISOString(),
+      };
+    }
+
+    if (now < startedAt) {
+      return { ...base, status: "starting" };
+    }
+
+    if (now < completedAt) {
+      // Stands in for the progress Replicate models log
+      return {
+        ...base,
+        status: "processing",
+        progress: (now - startedAt) / prediction.durationMs,
+      };
+    }
+
+    if (prediction.willFail) {
+      return {
+        ...base,
+        status: "failed",
+        error: "Mock provider: simulated generation failure",
+        completed_at: new Date(completedAt).toISOString(),
+      };
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    return {
+      ...base,
+      status: "succeeded",
+      output: Array.from(
+        { length: prediction.input.numOutputs ?? 1 },
+        (_, variant) =>
+          `${baseUrl}/api/mock/output/${prediction.id}?variant=${variant}`
+      ),
+      completed_at: new Date(completedAt).toISOString(),
+    };
+  }
+}
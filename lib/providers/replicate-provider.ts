@@ -0,0 +1,269 @@
+// lib/providers/replicate-provider.ts
+// Replicate-hosted models (Nano Banana Pro, Gemini image preview, ...)
+// These models return one image per prediction, so several outputs are
+// produced by running one prediction per output under a combined id
+import { getReplicateWebhookUrl } from "@/lib/replicate/webhook";
+import {
+  ProviderError,
+  type ImageGenerationProvider,
+  type ProviderGenerationInput,
+  type ProviderPrediction,
+} from "@/lib/providers/types";
+
+const REPLICATE_API_URL = "https://api.replicate.com/v1/predictions";
+
+// Replicate ids are lowercase alphanumeric, so a comma can't clash
+const PREDICTION_ID_SEPARATOR = ",";
+
+// Progress bars in model logs: tqdm ("45%|████▌     | 9/20 [00:04<00:05]") or "step 9/20"
+const LOG_PERCENT_PATTERN = /(\d{1,3})%\|/g;
+const LOG_STEP_PATTERN = /(?:\bstep\s+|\|\s*)(\d+)\/(\d+)/gi;
+
+/**
+ * Individual Replicate prediction ids behind a (possibly combined) prediction id
+ */
+export function splitPredictionId(predictionId: string): string[] {
+  return predictionId.split(PREDICTION_ID_SEPARATOR);
+}
+
+export class ReplicateProvider implements ImageGenerationProvider {
+  constructor(
+    public readonly name: string,
+    public readonly model: string
+  ) {}
+
+  async start(input: ProviderGenerationInput): Promise<ProviderPrediction> {
+    const count = input.numOutputs ?? 1;
+    if (count === 1) {
+      return this.startOne(input);
+    }
+
+    const results = await Promise.allSettled(
+      Array.from({ length: count }, () => this.startOne(input))
+    );
+
+    const started = results
+      .filter(
+        (result): result is PromiseFulfilledResult<ProviderPrediction> =>
+          result.status === "fulfilled"
+      )
+      .map((result) => result.value);
+
+    // Partial starts are kept - the missing outputs are refunded on completion
+    if (started.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    return combinePredictions(
+      started.map((prediction) => prediction.id).join(PREDICTION_ID_SEPARATOR),
+      started
+    );
+  }
+
+  async getStatus(predictionId: string): Promise<ProviderPrediction | null> {
+    const ids = splitPredictionId(predictionId);
+    if (ids.length === 1) {
+      return this.getOneStatus(predictionId);
+    }
+
+    const parts = await Promise.all(ids.map((id) => this.getOneStatus(id)));
+    if (parts.every((part) => !part)) {
+      return null;
+    }
+
+    return combinePredictions(
+      predictionId,
+      parts.map(
+        (part, index) =>
+          part ?? {
+            id: ids[index],
+            status: "failed",
+            error: "Prediction not found",
+          }
+      )
+    );
+  }
+
+  async cancel(predictionId: string): Promise<ProviderPrediction> {
+    const ids = splitPredictionId(predictionId);
+    if (ids.length === 1) {
+      return this.cancelOne(predictionId);
+    }
+
+    return combinePredictions(
+      predictionId,
+      await Promise.all(ids.map((id) => this.cancelOne(id)))
+    );
+  }
+
+  private async startOne(
+    input: ProviderGenerationInput
+  ): Promise<ProviderPrediction> {
+    // Let Replicate report completion directly when webhooks are configured
+    const webhookUrl = getReplicateWebhookUrl();
+
+    const response = await fetch(REPLICATE_API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Token ${this.getToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        version: this.model,
+        input: {
+          prompt: input.prompt,
+          image_input: input.images,
+          output_format: input.outputFormat,
+          ...(input.aspectRatio && { aspect_ratio: input.aspectRatio }),
+        },
+        ...(webhookUrl && {
+          webhook: webhookUrl,
+          webhook_events_filter: ["start", "completed"],
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      throw new ProviderError(
+        `Replicate request failed: ${response.status} - ${errorText}`,
+        response.status
+      );
+    }
+
+    return response.json();
+  }
+
+  private async getOneStatus(
+    predictionId: string
+  ): Promise<ProviderPrediction | null> {
+    const response = await fetch(`${REPLICATE_API_URL}/${predictionId}`, {
+      headers: {
+        Authorization: `Token ${this.getToken()}`,
+      },
+    });
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      throw new ProviderError(
+        `Status API error: ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+
+    const prediction: ProviderPrediction = await response.json();
+    return { ...prediction, progress: parseLogProgress(prediction.logs) };
+  }
+
+  private async cancelOne(predictionId: string): Promise<ProviderPrediction> {
+    const response = await fetch(`${REPLICATE_API_URL}/${predictionId}/cancel`, {
+      method: "POST",
+      headers: {
+        Authorization: `Token ${this.getToken()}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      throw new ProviderError(
+        `Cancel API error: ${response.status} - ${errorText}`,
+        response.status
+      );
+    }
+
+    return response.json();
+  }
+
+  private getToken(): string {
+    if (!process.env.REPLICATE_API_TOKEN) {
+      throw new ProviderError("Replicate API token not configured", 500);
+    }
+    return process.env.REPLICATE_API_TOKEN;
+  }
+}
+
+/**
+ * Merge per-output predictions into one: running until every part settles,
+ * then succeeded with whatever outputs came back, or failed/canceled when none did
+ */
+function combinePredictions(
+  id: string,
+  parts: ProviderPrediction[]
+): ProviderPrediction {
+  const timestamps = (key: "created_at" | "started_at" | "completed_at") =>
+    parts
+      .map((part) => part[key])
+      .filter((value): value is string => !!value)
+      .sort();
+
+  const base = {
+    id,
+    created_at: timestamps("created_at")[0],
+    started_at: timestamps("started_at")[0],
+  };
+
+  const running = parts.filter(
+    (part) => part.status === "starting" || part.status === "processing"
+  );
+  if (running.length > 0) {
+    // The slowest part decides, and it's unknown if any part doesn't report it
+    const progress = running.every((part) => part.progress !== undefined)
+      ? Math.min(...running.map((part) => part.progress!))
+      : undefined;
+
+    return {
+      ...base,
+      status: running.some((part) => part.status === "processing")
+        ? "processing"
+        : "starting",
+      progress,
+    };
+  }
+
+  const completedAt = timestamps("completed_at");
+  const settled = { ...base, completed_at: completedAt[completedAt.length - 1] };
+
+  const outputs = parts
+    .filter((part) => part.status === "succeeded")
+    .flatMap((part) =>
+      Array.isArray(part.output) ? part.output : part.output ? [part.output] : []
+    );
+
+  if (outputs.length > 0) {
+    return { ...settled, status: "succeeded", output: outputs };
+  }
+
+  if (parts.every((part) => part.status === "canceled")) {
+    return { ...settled, status: "canceled" };
+  }
+
+  return {
+    ...settled,
+    status: "failed",
+    error: parts.find((part) => part.error)?.error ?? "Generation failed",
+  };
+}
+
+/**
+ * Fraction done according to the latest progress bar in a prediction's logs,
+ * or undefined when the model doesn't log one
+ */
+function parseLogProgress(logs?: string): number | undefined {
+  if (!logs) {
+    return undefined;
+  }
+
+  const percent = Array.from(logs.matchAll(LOG_PERCENT_PATTERN)).pop();
+  if (percent) {
+    return Math.min(Number(percent[1]) / 100, 1);
+  }
+
+  const step = Array.from(logs.matchAll(LOG_STEP_PATTERN)).pop();
+  if (step && Number(step[2]) > 0 && Number(step[1]) <= Number(step[2])) {
+    return Math.min(Number(step[1]) / Number(step[2]), 1);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,55 @@
+// lib/providers/types.ts
+// Contract every image-generation backend implements, so routes never depend
+// on a specific provider's API shape
+
+export type PredictionStatus =
+  | "starting"
+  | "processing"
+  | "succeeded"
+  | "failed"
+  | "canceled";
+
+export interface ProviderGenerationInput {
+  prompt: string;
+  // Person photo first, then Labubu reference images
+  images: string[];
+  outputFormat: "jpg" | "png";
+  // ASPECT_RATIOS id - the model keeps the photo's framing when missing
+  aspectRatio?: string;
+  // Candidate images to produce (1 when missing, e.g. inputs stored before variants)
+  numOutputs?: number;
+}
+
+export interface ProviderPrediction {
+  id: string;
+  status: PredictionStatus;
+  output?: string | string[];
+  error?: string;
+  logs?: string;
+  // Fraction done (0-1) while processing, when the provider reports it
+  progress?: number;
+  created_at?: string;
+  started_at?: string;
+  completed_at?: string;
+}
+
+export interface ImageGenerationProvider {
+  // Key in AI_CONFIG.PROVIDERS, stored on each generation
+  readonly name: string;
+  readonly model: string;
+
+  start(input: ProviderGenerationInput): Promise<ProviderPrediction>;
+  // Resolves to null when the provider doesn't know the prediction
+  getStatus(predictionId: string): Promise<ProviderPrediction | null>;
+  cancel(predictionId: string): Promise<ProviderPrediction>;
+}
+
+export class ProviderError extends Error {
+  public status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,62 @@
+// lib/replicate/webhook.ts
+// Replicate webhook registration and signature verification
+// Replicate signs webhooks per the Standard Webhooks spec: HMAC-SHA256 over
+// "<webhook-id>.<webhook-timestamp>.<body>" using the base64 part of the whsec_ secret
+import crypto from "crypto";
+
+// Reject deliveries older than this to limit replay attacks
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Public URL Replicate should call when a prediction changes state.
+ * Returns null when webhooks aren't configured, in which case status is only
+ * picked up by the status route.
+ */
+export function getReplicateWebhookUrl(): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl || !process.env.REPLICATE_WEBHOOK_SECRET) {
+    return null;
+  }
+
+  return `${appUrl.replace(/\/$/, "")}/api/replicate/webhook`;
+}
+
+export function verifyReplicateWebhook(
+  headers: Headers,
+  body: string
+): boolean {
+  const secret = process.env.REPLICATE_WEBHOOK_SECRET;
+  const webhookId = headers.get("webhook-id");
+  const timestamp = headers.get("webhook-timestamp");
+  const signatureHeader = headers.get("webhook-signature");
+
+  if (!secret || !webhookId || !timestamp || !signatureHeader) {
+    return false;
+  }
+
+  const timestampSeconds = parseInt(timestamp, 10);
+  if (
+    Number.isNaN(timestampSeconds) ||
+    Math.abs(Date.now() / 1000 - timestampSeconds) > TIMESTAMP_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  const expected = crypto
+    .createHmac("sha256", key)
+    .update(`${webhookId}.${timestamp}.${body}`)
+    .digest();
+
+  // Header holds space-separated "v1,<base64 signature>" entries
+  return signatureHeader.split(" ").some((entry) => {
+    const [version, signature] = entry.split(",");
+    if (version !== "v1" || !signature) return false;
+
+    const received = Buffer.from(signature, "base64");
+    return (
+      received.length === expected.length &&
+      crypto.timingSafeEqual(received, expected)
+    );
+  });
+}
@@ -1,5 +1,6 @@
 import { deviceUtils } from './utils';
 import { NetworkError } from './errors';
+import type { OutputFormatId } from './config';
 
 export interface ShareOptions {
   title?: string;
@@ -214,7 +215,7 @@ export class SharingService {
   /**
    * Generate optimized filename for sharing
    */
-  generateShareFilename(labubuId: number, format: 'jpg' | 'png' = 'jpg'): string {
+  generateShareFilename(labubuId: number, format: OutputFormatId = 'jpg'): string {
     const timestamp = new Date().toISOString().split('T')[0];
     const labubuName = this.getLabubuName(labubuId);
     return `labubu-${labubuName}-${timestamp}.${format}`;
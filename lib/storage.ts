@@ -5,6 +5,12 @@ export interface StoredImage {
   originalImage: Blob;
   generatedImage: Blob;
   labubuId: number;
+  // Every Labubu in the photo, main first (missing on older items)
+  labubuIds?: number[];
+  // Server generation id, used to link regenerations (missing on older items)
+  generationId?: string;
+  // Set on results of one "try all" batch, which history shows as a group
+  batchId?: string;
   timestamp: number;
   filename: string;
 }
@@ -12,6 +18,9 @@ export interface StoredImage {
 export interface ImageMetadata {
   id: string;
   labubuId: number;
+  labubuIds?: number[];
+  generationId?: string;
+  batchId?: string;
   timestamp: number;
   filename: string;
   originalSize: number;
@@ -20,7 +29,7 @@ export interface ImageMetadata {
 
 class ImageStorage {
   private dbName = 'LabubuImages';
-  private dbVersion = 1;
+  private dbVersion = 2;
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
@@ -48,6 +57,11 @@ class ImageStorage {
           const metadataStore = db.createObjectStore('metadata', { keyPath: 'id' });
           metadataStore.createIndex('timestamp', 'timestamp', { unique: false });
         }
+
+        // Photos of generations still running, so a reload can save their results
+        if (!db.objectStoreNames.contains('pending')) {
+          db.createObjectStore('pending', { keyPath: 'id' });
+        }
       };
     });
   }
@@ -55,7 +69,12 @@ class ImageStorage {
   async saveImage(
     originalImage: Blob,
     generatedImage: Blob,
-    labubuId: number
+    labubuId: number,
+    {
+      labubuIds,
+      generationId,
+      batchId,
+    }: { labubuIds?: number[]; generationId?: string; batchId?: string } = {}
   ): Promise<string> {
     if (!this.db) await this.init();
 
@@ -68,6 +87,9 @@ class ImageStorage {
       originalImage,
       generatedImage,
       labubuId,
+      labubuIds,
+      generationId,
+      batchId,
       timestamp,
       filename,
     };
@@ -75,6 +97,9 @@ class ImageStorage {
     const metadata: ImageMetadata = {
       id,
       labubuId,
+      labubuIds,
+      generationId,
+      batchId,
       timestamp,
       filename,
       originalSize: originalImage.size,
@@ -193,6 +218,49 @@ class ImageStorage {
     }
   }
 
+  /**
+   * Keep the photo of a running generation until its result is saved
+   * (see lib/stores/generation-store.ts)
+   */
+  async savePendingPhoto(id: string, photo: Blob): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['pending'], 'readwrite');
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      transaction.objectStore('pending').put({ id, photo });
+    });
+  }
+
+  async getPendingPhoto(id: string): Promise<Blob | null> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['pending'], 'readonly');
+      const request = transaction.objectStore('pending').get(id);
+
+      request.onsuccess = () => resolve(request.result?.photo ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Clears every pending photo - only one generation runs at a time
+  async clearPendingPhotos(): Promise<void> {
+    if (!this.db) await this.init();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['pending'], 'readwrite');
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+
+      transaction.objectStore('pending').clear();
+    });
+  }
+
   // Export all images as a ZIP file (for future implementation)
   async exportAll(): Promise<Blob> {
     // This would require a ZIP library like JSZip
@@ -1,6 +1,6 @@
 // lib/storage/r2-service.ts
 // Cloudflare R2 storage service for image storage
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
 const R2_ENDPOINT = process.env.R2_ENDPOINT;
@@ -24,6 +24,31 @@ const R2 = R2_ENDPOINT && R2_ACCESS_KEY_ID && R2_SECRET_ACCESS_KEY
     })
   : null;
 
+// Photo types accepted for direct uploads, with the extension used in the key
+export const UPLOAD_CONTENT_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+};
+
+// Generated outputs can also be SVG (mock provider)
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  ...UPLOAD_CONTENT_TYPES,
+  'image/svg+xml': 'svg',
+};
+
+export interface StoredImage {
+  key: string;
+  // CDN URL, or the key when there's no CDN (use a presigned URL instead)
+  url: string;
+}
+
+export interface PresignedUpload {
+  url: string;
+  key: string;
+}
+
 export class R2StorageService {
   private bucket: string;
   private cdnUrl: string | null;
@@ -37,12 +62,13 @@ export class R2StorageService {
     userId: string,
     imageBlob: Blob,
     metadata: Record<string, string> = {}
-  ): Promise<string> {
+  ): Promise<StoredImage> {
     if (!R2) {
       throw new Error('R2 storage is not configured');
     }
 
-    const key = `users/${userId}/images/${Date.now()}-${Math.random().toString(36).substring(7)}.jpg`;
+    const contentType = IMAGE_EXTENSIONS[imageBlob.type] ? imageBlob.type : 'image/jpeg';
+    const key = `users/${userId}/images/${Date.now()}-${Math.random().toString(36).substring(7)}.${IMAGE_EXTENSIONS[contentType]}`;
 
     const arrayBuffer = await imageBlob.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
@@ -51,33 +77,69 @@ export class R2StorageService {
       Bucket: this.bucket,
       Key: key,
       Body: buffer,
-      ContentType: 'image/jpeg',
+      ContentType: contentType,
       Metadata: metadata,
     }));
 
-    // Return CDN URL if available, otherwise construct URL
-    if (this.cdnUrl) {
-      return `${this.cdnUrl}/${key}`;
-    }
-
-    // Fallback: return key (will need to be accessed via signed URL)
-    return key;
+    return { key, url: this.getPublicUrl(key) };
   }
 
-  async getPresignedUploadUrl(userId: string, expiresIn: number = 3600): Promise<string> {
+  /**
+   * Presigned PUT for a photo upload. The client must send the same Content-Type
+   * (and Content-Length, when given), then passes the returned key to the API.
+   */
+  async getPresignedUploadUrl(
+    userId: string,
+    contentType: string = 'image/jpeg',
+    expiresIn: number = 3600,
+    contentLength?: number
+  ): Promise<PresignedUpload> {
     if (!R2) {
       throw new Error('R2 storage is not configured');
     }
 
-    const key = `users/${userId}/uploads/${Date.now()}.jpg`;
+    const extension = UPLOAD_CONTENT_TYPES[contentType];
+    if (!extension) {
+      throw new Error(`Unsupported upload content type: ${contentType}`);
+    }
+
+    // Top-level prefix so a single lifecycle rule can expire every upload
+    const key = `uploads/${userId}/${Date.now()}-${crypto.randomUUID()}.${extension}`;
 
     const command = new PutObjectCommand({
       Bucket: this.bucket,
       Key: key,
-      ContentType: 'image/jpeg',
+      ContentType: contentType,
+      ContentLength: contentLength,
     });
 
-    return getSignedUrl(R2, command, { expiresIn });
+    return { url: await getSignedUrl(R2, command, { expiresIn }), key };
+  }
+
+  /**
+   * Whether a key is one of the user's own uploads (keys come back from clients)
+   */
+  isUserUploadKey(userId: string, key: string): boolean {
+    return key.startsWith(`uploads/${userId}/`) && !key.includes('..');
+  }
+
+  async objectExists(key: string): Promise<boolean> {
+    if (!R2) {
+      throw new Error('R2 storage is not configured');
+    }
+
+    try {
+      await R2.send(new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      return true;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NotFound') {
+        return false;
+      }
+      throw error;
+    }
   }
 
   async getPresignedDownloadUrl(key: string, expiresIn: number = 3600): Promise<string> {
@@ -93,6 +155,16 @@ export class R2StorageService {
     return getSignedUrl(R2, command, { expiresIn });
   }
 
+  /**
+   * URL a browser can load: the CDN when configured, otherwise a presigned URL
+   */
+  async getViewUrl(key: string, expiresIn: number = 3600): Promise<string> {
+    if (this.cdnUrl) {
+      return `${this.cdnUrl}/${key}`;
+    }
+    return this.getPresignedDownloadUrl(key, expiresIn);
+  }
+
   async deleteImage(key: string): Promise<void> {
     if (!R2) {
       throw new Error('R2 storage is not configured');
@@ -116,6 +188,31 @@ export class R2StorageService {
     return key;
   }
 
+  /**
+   * Whether a URL points at this bucket - a presigned URL or the CDN
+   */
+  isStorageUrl(url: string): boolean {
+    if (!R2_ENDPOINT) {
+      return false;
+    }
+
+    try {
+      const { protocol, host } = new URL(url);
+      if (protocol !== 'https:' && protocol !== 'http:') {
+        return false;
+      }
+
+      const endpointHost = new URL(R2_ENDPOINT).host;
+      const hosts = [endpointHost, `${this.bucket}.${endpointHost}`];
+      if (this.cdnUrl) {
+        hosts.push(new URL(this.cdnUrl).host);
+      }
+      return hosts.includes(host);
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Check if R2 is configured
    */
@@ -0,0 +1,60 @@
+// lib/stores/generation-store.ts
+// Zustand store for the generation in progress, persisted so a page reload
+// can pick it back up. The photo itself is kept in IndexedDB (see
+// imageStorage.savePendingPhoto), keyed by the same id.
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+
+export type ActiveGeneration =
+  | {
+      kind: "single";
+      // Prediction id, or the generation id while it's queued
+      id: string;
+      generationId?: string;
+      // Main Labubu - the result is saved to history with it
+      labubuId: number;
+      // Every Labubu in the photo, main first (missing on older entries)
+      labubuIds?: number[];
+      startedAt: number;
+    }
+  | {
+      kind: "batch";
+      // Batch id
+      id: string;
+      // Every item (generation id while queued), so the batch can be canceled
+      predictionIds: string[];
+      startedAt: number;
+    };
+
+// Older than this, a leftover generation isn't resumed - the server has
+// settled (and refunded) it long ago, and its result would be a surprise
+const RESUME_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+export function isResumable(generation: ActiveGeneration): boolean {
+  return Date.now() - generation.startedAt < RESUME_WINDOW_MS;
+}
+
+interface GenerationState {
+  activeGeneration: ActiveGeneration | null;
+
+  // Actions
+  setActiveGeneration: (generation: ActiveGeneration) => void;
+  clearActiveGeneration: () => void;
+}
+
+export const useGenerationStore = create<GenerationState>()(
+  persist(
+    (set) => ({
+      activeGeneration: null,
+
+      setActiveGeneration: (generation) => set({ activeGeneration: generation }),
+
+      clearActiveGeneration: () => set({ activeGeneration: null }),
+    }),
+    {
+      name: "labubufy-generation",
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ activeGeneration: state.activeGeneration }),
+    }
+  )
+);
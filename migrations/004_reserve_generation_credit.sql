@@ -0,0 +1,91 @@
+-- migrations/004_reserve_generation_credit.sql
+-- Server-side credit reservation for /api/generate
+-- The balance check, the deduction and the spend event happen in one function call,
+-- so concurrent requests can never push a user's credits below zero.
+
+CREATE OR REPLACE FUNCTION reserve_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  amount INTEGER DEFAULT 1
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+BEGIN
+  -- Conditional update: only succeeds when the balance covers the cost
+  UPDATE users
+  SET
+    credits = credits - amount,
+    total_spent = COALESCE(total_spent, 0) + amount,
+    updated_at = now()
+  WHERE users.auth_user_id = reserve_generation_credit.auth_id
+  AND users.credits >= amount
+  RETURNING credits INTO v_credits;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'reserved', false,
+      'credits', COALESCE(
+        (SELECT credits FROM users WHERE users.auth_user_id = reserve_generation_credit.auth_id),
+        0
+      )
+    );
+  END IF;
+
+  -- Record the spend, keyed by the reservation so it can be released later
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    reserve_generation_credit.auth_id,
+    'spend',
+    -amount,
+    'Image generation',
+    jsonb_build_object('reservation_id', reservation_id)
+  );
+
+  RETURN json_build_object('reserved', true, 'credits', v_credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Give back a reserved credit (e.g. when the prediction could not be started)
+-- Safe to call more than once: a reservation is only ever refunded a single time
+CREATE OR REPLACE FUNCTION release_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  amount INTEGER DEFAULT 1,
+  description TEXT DEFAULT 'Generation failed - credit refunded'
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM credit_events
+    WHERE credit_events.user_id = release_generation_credit.auth_id
+    AND credit_events.type = 'refund'
+    AND credit_events.metadata @> jsonb_build_object('reservation_id', reservation_id)
+  ) THEN
+    RETURN json_build_object('released', false, 'reason', 'already_refunded');
+  END IF;
+
+  UPDATE users
+  SET
+    credits = credits + amount,
+    total_spent = GREATEST(0, COALESCE(total_spent, 0) - amount),
+    updated_at = now()
+  WHERE users.auth_user_id = release_generation_credit.auth_id
+  RETURNING credits INTO v_credits;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('released', false, 'reason', 'user_not_found');
+  END IF;
+
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    release_generation_credit.auth_id,
+    'refund',
+    amount,
+    release_generation_credit.description,
+    jsonb_build_object('reservation_id', reservation_id)
+  );
+
+  RETURN json_build_object('released', true, 'credits', v_credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
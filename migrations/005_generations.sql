@@ -0,0 +1,154 @@
+-- migrations/005_generations.sql
+-- Persistent record of every generation: who asked for it, which Labubu,
+-- which prediction it became, what it cost and how it ended
+
+CREATE TABLE IF NOT EXISTS generations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(), -- Same value as the credit reservation id
+  user_id UUID NOT NULL, -- auth_user_id, matching credit_events.user_id
+  prediction_id TEXT UNIQUE,
+  labubu_id INTEGER NOT NULL,
+  model TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'starting', 'processing', 'succeeded', 'failed', 'canceled')),
+  credits_charged INTEGER NOT NULL DEFAULT 1,
+  credit_event_id UUID REFERENCES credit_events(id) ON DELETE SET NULL,
+  refunded_at TIMESTAMPTZ,
+  output_url TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(), -- Request received
+  submitted_at TIMESTAMPTZ, -- Prediction created at the provider
+  started_at TIMESTAMPTZ, -- Provider began processing
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_generations_user_created
+ON generations(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_generations_status
+ON generations(status);
+
+-- Only the service role touches this table; users read their own rows
+ALTER TABLE generations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own generations" ON generations;
+
+CREATE POLICY "Users can read own generations" ON generations
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Replace the reservation function so the generation row is written in the
+-- same transaction as the credit deduction
+DROP FUNCTION IF EXISTS reserve_generation_credit(UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION reserve_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  labubu_id INTEGER,
+  model TEXT,
+  prompt_version TEXT,
+  amount INTEGER DEFAULT 1
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+  v_event_id UUID;
+BEGIN
+  -- Conditional update: only succeeds when the balance covers the cost
+  UPDATE users
+  SET
+    credits = credits - amount,
+    total_spent = COALESCE(total_spent, 0) + amount,
+    updated_at = now()
+  WHERE users.auth_user_id = reserve_generation_credit.auth_id
+  AND users.credits >= amount
+  RETURNING credits INTO v_credits;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'reserved', false,
+      'credits', COALESCE(
+        (SELECT credits FROM users WHERE users.auth_user_id = reserve_generation_credit.auth_id),
+        0
+      )
+    );
+  END IF;
+
+  -- Record the spend, keyed by the reservation so it can be released later
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    reserve_generation_credit.auth_id,
+    'spend',
+    -amount,
+    'Image generation',
+    jsonb_build_object('reservation_id', reservation_id, 'generation_id', reservation_id)
+  )
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO generations (
+    id, user_id, labubu_id, model, prompt_version, credits_charged, credit_event_id
+  )
+  VALUES (
+    reservation_id,
+    reserve_generation_credit.auth_id,
+    reserve_generation_credit.labubu_id,
+    reserve_generation_credit.model,
+    reserve_generation_credit.prompt_version,
+    amount,
+    v_event_id
+  );
+
+  RETURN json_build_object(
+    'reserved', true,
+    'credits', v_credits,
+    'generation_id', reservation_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Stamp the generation when its reservation is refunded
+CREATE OR REPLACE FUNCTION release_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  amount INTEGER DEFAULT 1,
+  description TEXT DEFAULT 'Generation failed - credit refunded'
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM credit_events
+    WHERE credit_events.user_id = release_generation_credit.auth_id
+    AND credit_events.type = 'refund'
+    AND credit_events.metadata @> jsonb_build_object('reservation_id', reservation_id)
+  ) THEN
+    RETURN json_build_object('released', false, 'reason', 'already_refunded');
+  END IF;
+
+  UPDATE users
+  SET
+    credits = credits + amount,
+    total_spent = GREATEST(0, COALESCE(total_spent, 0) - amount),
+    updated_at = now()
+  WHERE users.auth_user_id = release_generation_credit.auth_id
+  RETURNING credits INTO v_credits;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('released', false, 'reason', 'user_not_found');
+  END IF;
+
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    release_generation_credit.auth_id,
+    'refund',
+    amount,
+    release_generation_credit.description,
+    jsonb_build_object('reservation_id', reservation_id, 'generation_id', reservation_id)
+  );
+
+  UPDATE generations
+  SET refunded_at = now(), updated_at = now()
+  WHERE generations.id = release_generation_credit.reservation_id;
+
+  RETURN json_build_object('released', true, 'credits', v_credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
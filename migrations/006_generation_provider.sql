@@ -0,0 +1,11 @@
+-- migrations/006_generation_provider.sql
+-- Remember which provider (AI_CONFIG.PROVIDERS key) started each generation,
+-- so status checks and cancellation keep working after the default changes
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS provider TEXT;
+
+-- Everything before this migration ran on Nano Banana Pro via Replicate
+UPDATE generations
+SET provider = 'nano-banana-pro'
+WHERE provider IS NULL;
@@ -0,0 +1,16 @@
+-- migrations/007_generation_retries.sql
+-- Failed or timed-out predictions are retried once (possibly on a fallback
+-- provider) under the same generation and the same credit reservation
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS retry_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS original_prediction_id TEXT, -- First prediction id, the one clients keep using
+ADD COLUMN IF NOT EXISTS provider_input JSONB; -- Prompt and images, needed to resubmit
+
+UPDATE generations
+SET original_prediction_id = prediction_id
+WHERE original_prediction_id IS NULL
+AND prediction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_generations_original_prediction
+ON generations(original_prediction_id);
@@ -0,0 +1,13 @@
+-- migrations/008_generation_outputs.sql
+-- Generations can ask for several candidate images; each one is charged, and
+-- outputs that never come back are refunded when the generation completes
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS num_outputs INTEGER NOT NULL DEFAULT 1
+  CHECK (num_outputs BETWEEN 1 AND 4),
+ADD COLUMN IF NOT EXISTS output_urls TEXT[]; -- Every output; output_url stays the first one
+
+UPDATE generations
+SET output_urls = ARRAY[output_url]
+WHERE output_urls IS NULL
+AND output_url IS NOT NULL;
@@ -0,0 +1,79 @@
+-- migrations/009_generation_labubu_ids.sql
+-- A generation can put several Labubus in one scene; labubu_id stays the
+-- primary (first) one so existing queries keep working
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS labubu_ids INTEGER[];
+
+UPDATE generations
+SET labubu_ids = ARRAY[labubu_id]
+WHERE labubu_ids IS NULL;
+
+-- Replace the reservation function to record every Labubu in the scene
+DROP FUNCTION IF EXISTS reserve_generation_credit(UUID, UUID, INTEGER, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION reserve_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  labubu_id INTEGER,
+  model TEXT,
+  prompt_version TEXT,
+  amount INTEGER DEFAULT 1,
+  labubu_ids INTEGER[] DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+  v_event_id UUID;
+BEGIN
+  -- Conditional update: only succeeds when the balance covers the cost
+  UPDATE users
+  SET
+    credits = credits - amount,
+    total_spent = COALESCE(total_spent, 0) + amount,
+    updated_at = now()
+  WHERE users.auth_user_id = reserve_generation_credit.auth_id
+  AND users.credits >= amount
+  RETURNING credits INTO v_credits;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'reserved', false,
+      'credits', COALESCE(
+        (SELECT credits FROM users WHERE users.auth_user_id = reserve_generation_credit.auth_id),
+        0
+      )
+    );
+  END IF;
+
+  -- Record the spend, keyed by the reservation so it can be released later
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    reserve_generation_credit.auth_id,
+    'spend',
+    -amount,
+    'Image generation',
+    jsonb_build_object('reservation_id', reservation_id, 'generation_id', reservation_id)
+  )
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO generations (
+    id, user_id, labubu_id, labubu_ids, model, prompt_version, credits_charged, credit_event_id
+  )
+  VALUES (
+    reservation_id,
+    reserve_generation_credit.auth_id,
+    reserve_generation_credit.labubu_id,
+    COALESCE(reserve_generation_credit.labubu_ids, ARRAY[reserve_generation_credit.labubu_id]),
+    reserve_generation_credit.model,
+    reserve_generation_credit.prompt_version,
+    amount,
+    v_event_id
+  );
+
+  RETURN json_build_object(
+    'reserved', true,
+    'credits', v_credits,
+    'generation_id', reservation_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,11 @@
+-- migrations/010_generation_pose.sql
+-- Pose/scene preset the generation was requested with (POSE_PRESETS in lib/config.ts)
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS pose TEXT;
+
+-- Everything before presets used the holding pose
+UPDATE generations
+SET pose = 'holding'
+WHERE pose IS NULL
+AND prediction_id IS NOT NULL;
@@ -0,0 +1,5 @@
+-- migrations/012_generation_extra_prompt.sql
+-- Optional user-written prompt addition, stored after moderation (lib/prompts/moderation.ts)
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS extra_prompt TEXT;
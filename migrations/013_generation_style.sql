@@ -0,0 +1,11 @@
+-- migrations/013_generation_style.sql
+-- Rendering style the generation was requested with (STYLE_PRESETS in lib/config.ts)
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS style TEXT;
+
+-- Everything before style presets was photoreal
+UPDATE generations
+SET style = 'photoreal'
+WHERE style IS NULL
+AND prediction_id IS NOT NULL;
@@ -0,0 +1,6 @@
+-- migrations/014_generation_output_keys.sql
+-- R2 copies of each generation's outputs. Provider output URLs expire, so
+-- succeeded outputs are downloaded and stored under users/<auth id>/images/
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS output_keys TEXT[];
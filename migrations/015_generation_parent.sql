@@ -0,0 +1,71 @@
+-- migrations/015_generation_parent.sql
+-- Regenerate / remix from history: link a generation to the one it re-runs
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS parent_generation_id UUID REFERENCES generations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_generations_parent_generation_id
+ON generations(parent_generation_id)
+WHERE parent_generation_id IS NOT NULL;
+
+-- Count explicit regenerations alongside the time-based proxy from 011
+CREATE OR REPLACE VIEW prompt_variant_stats AS
+WITH started AS (
+  SELECT
+    g.*,
+    (
+      g.status = 'succeeded'
+      AND EXISTS (
+        SELECT 1 FROM generations next
+        WHERE next.user_id = g.user_id
+        AND next.id <> g.id
+        AND (
+          next.parent_generation_id = g.id
+          -- Proxy for "didn't like the result": the same user generated the
+          -- same Labubu again within 15 minutes of a success
+          OR (
+            next.labubu_id = g.labubu_id
+            AND next.created_at > g.completed_at
+            AND next.created_at <= g.completed_at + INTERVAL '15 minutes'
+          )
+        )
+      )
+    ) AS regenerated
+  FROM generations g
+  WHERE g.prediction_id IS NOT NULL
+)
+SELECT
+  prompt_version,
+  COUNT(*) AS generations,
+  COUNT(DISTINCT user_id) AS users,
+  COUNT(*) FILTER (WHERE status = 'succeeded') AS succeeded,
+  COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+  COUNT(*) FILTER (WHERE status = 'canceled') AS canceled,
+  COUNT(*) FILTER (WHERE retry_count > 0) AS retried,
+  COUNT(*) FILTER (WHERE regenerated) AS regenerated,
+  ROUND(
+    COUNT(*) FILTER (WHERE status = 'succeeded')::NUMERIC
+      / NULLIF(COUNT(*) FILTER (WHERE status IN ('succeeded', 'failed')), 0),
+    4
+  ) AS success_rate,
+  ROUND(
+    COUNT(*) FILTER (WHERE status = 'failed')::NUMERIC
+      / NULLIF(COUNT(*) FILTER (WHERE status IN ('succeeded', 'failed')), 0),
+    4
+  ) AS failure_rate,
+  ROUND(
+    COUNT(*) FILTER (WHERE regenerated)::NUMERIC
+      / NULLIF(COUNT(*) FILTER (WHERE status = 'succeeded'), 0),
+    4
+  ) AS regeneration_rate,
+  ROUND(
+    AVG(EXTRACT(EPOCH FROM (completed_at - submitted_at)))
+      FILTER (WHERE status = 'succeeded')::NUMERIC,
+    1
+  ) AS avg_seconds_to_success,
+  MIN(created_at) AS first_generation_at,
+  MAX(created_at) AS last_generation_at
+FROM started
+GROUP BY prompt_version;
+
+REVOKE ALL ON prompt_variant_stats FROM anon, authenticated;
@@ -0,0 +1,9 @@
+-- migrations/016_generation_batches.sql
+-- "Try all" batches: one photo, one generation per Labubu, grouped by batch_id
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_generations_batch_id
+ON generations(batch_id)
+WHERE batch_id IS NOT NULL;
@@ -0,0 +1,78 @@
+-- migrations/017_generation_queue.sql
+-- Per-user and global limits on running predictions. Generations over either
+-- limit are reserved as usual but wait as 'queued' until a slot frees up
+
+ALTER TABLE generations
+DROP CONSTRAINT IF EXISTS generations_status_check;
+
+ALTER TABLE generations
+ADD CONSTRAINT generations_status_check
+CHECK (status IN ('pending', 'queued', 'starting', 'processing', 'succeeded', 'failed', 'canceled'));
+
+CREATE INDEX IF NOT EXISTS idx_generations_queued
+ON generations(created_at)
+WHERE status = 'queued';
+
+-- Claim a running slot for a pending or queued generation. On success it moves
+-- to 'starting' (the caller then starts the prediction); otherwise it is left
+-- 'queued'. Claims are serialised so two requests can't take the last slot.
+CREATE OR REPLACE FUNCTION claim_generation_slot(
+  generation_id UUID,
+  max_per_user INTEGER,
+  max_global INTEGER
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID;
+  v_created_at TIMESTAMPTZ;
+  v_user_running INTEGER;
+  v_global_running INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_slot'));
+
+  SELECT user_id, created_at INTO v_user_id, v_created_at
+  FROM generations
+  WHERE id = claim_generation_slot.generation_id
+  AND status IN ('pending', 'queued');
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Claimed slots whose prediction never got attached (a crashed request)
+  -- stop counting after a few minutes
+  SELECT
+    COUNT(*) FILTER (WHERE user_id = v_user_id),
+    COUNT(*)
+  INTO v_user_running, v_global_running
+  FROM generations
+  WHERE status IN ('starting', 'processing')
+  AND (prediction_id IS NOT NULL OR submitted_at > now() - INTERVAL '5 minutes');
+
+  -- A user's generations start in the order they were requested
+  IF v_user_running >= max_per_user
+    OR v_global_running >= max_global
+    OR EXISTS (
+      SELECT 1 FROM generations
+      WHERE user_id = v_user_id
+      AND status = 'queued'
+      AND created_at < v_created_at
+    )
+  THEN
+    UPDATE generations
+    SET status = 'queued', updated_at = now()
+    WHERE id = claim_generation_slot.generation_id
+    AND status = 'pending';
+
+    RETURN false;
+  END IF;
+
+  UPDATE generations
+  SET status = 'starting', submitted_at = now(), updated_at = now()
+  WHERE id = claim_generation_slot.generation_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) schedules generations
+REVOKE EXECUTE ON FUNCTION claim_generation_slot(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
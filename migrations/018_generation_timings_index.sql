@@ -0,0 +1,7 @@
+-- migrations/018_generation_timings_index.sql
+-- Progress estimates use the median timings of each model's latest successful
+-- generations (see lib/generations/generation-timings.ts)
+
+CREATE INDEX IF NOT EXISTS idx_generations_model_completed
+ON generations(model, completed_at DESC)
+WHERE status = 'succeeded';
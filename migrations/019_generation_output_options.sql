@@ -0,0 +1,7 @@
+-- migrations/019_generation_output_options.sql
+-- Output format, aspect ratio and upscale requested for each generation,
+-- applied when its outputs are copied to storage. NULL for older generations,
+-- whose outputs are stored as generated.
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS output_options JSONB;
@@ -0,0 +1,173 @@
+-- migrations/020_generation_credit_tier.sql
+-- Tell free daily credits apart from paid ones, and record on each generation
+-- which kind paid for it. Results paid (even partly) with free credits are
+-- watermarked. Paid credits are spent first.
+
+-- The part of users.credits that came from the daily free grant. Balances from
+-- before this migration count as paid.
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS free_credits INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS credit_tier TEXT CHECK (credit_tier IN ('free', 'paid')),
+ADD COLUMN IF NOT EXISTS free_credits_used INTEGER NOT NULL DEFAULT 0;
+
+-- A daily grant (ensure_user_exists stamps last_free_credits_at) makes the
+-- whole balance free. Any other spend comes out of paid credits first, so free
+-- credits are capped at the balance.
+CREATE OR REPLACE FUNCTION track_free_credits() RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.last_free_credits_at IS NOT NULL AND (
+    TG_OP = 'INSERT'
+    OR NEW.last_free_credits_at IS DISTINCT FROM OLD.last_free_credits_at
+  ) THEN
+    NEW.free_credits := COALESCE(NEW.credits, 0);
+  END IF;
+
+  NEW.free_credits := GREATEST(0, LEAST(NEW.free_credits, COALESCE(NEW.credits, 0)));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_track_free_credits ON users;
+CREATE TRIGGER users_track_free_credits
+BEFORE INSERT OR UPDATE ON users
+FOR EACH ROW EXECUTE FUNCTION track_free_credits();
+
+-- Replace the reservation function to record the credit tier
+CREATE OR REPLACE FUNCTION reserve_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  labubu_id INTEGER,
+  model TEXT,
+  prompt_version TEXT,
+  amount INTEGER DEFAULT 1,
+  labubu_ids INTEGER[] DEFAULT NULL
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+  v_free_before INTEGER;
+  v_free_after INTEGER;
+  v_free_used INTEGER;
+  v_tier TEXT;
+  v_event_id UUID;
+BEGIN
+  SELECT free_credits INTO v_free_before
+  FROM users
+  WHERE users.auth_user_id = reserve_generation_credit.auth_id
+  FOR UPDATE;
+
+  -- Conditional update: only succeeds when the balance covers the cost
+  UPDATE users
+  SET
+    credits = credits - amount,
+    total_spent = COALESCE(total_spent, 0) + amount,
+    updated_at = now()
+  WHERE users.auth_user_id = reserve_generation_credit.auth_id
+  AND users.credits >= amount
+  RETURNING credits, free_credits INTO v_credits, v_free_after;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'reserved', false,
+      'credits', COALESCE(
+        (SELECT credits FROM users WHERE users.auth_user_id = reserve_generation_credit.auth_id),
+        0
+      )
+    );
+  END IF;
+
+  -- The trigger capped free credits at the new balance
+  v_free_used := COALESCE(v_free_before, 0) - v_free_after;
+  v_tier := CASE WHEN v_free_used > 0 THEN 'free' ELSE 'paid' END;
+
+  -- Record the spend, keyed by the reservation so it can be released later
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    reserve_generation_credit.auth_id,
+    'spend',
+    -amount,
+    'Image generation',
+    jsonb_build_object('reservation_id', reservation_id, 'generation_id', reservation_id)
+  )
+  RETURNING id INTO v_event_id;
+
+  INSERT INTO generations (
+    id, user_id, labubu_id, labubu_ids, model, prompt_version, credits_charged,
+    credit_event_id, credit_tier, free_credits_used
+  )
+  VALUES (
+    reservation_id,
+    reserve_generation_credit.auth_id,
+    reserve_generation_credit.labubu_id,
+    COALESCE(reserve_generation_credit.labubu_ids, ARRAY[reserve_generation_credit.labubu_id]),
+    reserve_generation_credit.model,
+    reserve_generation_credit.prompt_version,
+    amount,
+    v_event_id,
+    v_tier,
+    v_free_used
+  );
+
+  RETURN json_build_object(
+    'reserved', true,
+    'credits', v_credits,
+    'generation_id', reservation_id,
+    'credit_tier', v_tier
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the release function so refunded free credits stay free
+CREATE OR REPLACE FUNCTION release_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  amount INTEGER DEFAULT 1,
+  description TEXT DEFAULT 'Generation failed - credit refunded'
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+  v_free_refund INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM credit_events
+    WHERE credit_events.user_id = release_generation_credit.auth_id
+    AND credit_events.type = 'refund'
+    AND credit_events.metadata @> jsonb_build_object('reservation_id', reservation_id)
+  ) THEN
+    RETURN json_build_object('released', false, 'reason', 'already_refunded');
+  END IF;
+
+  SELECT LEAST(amount, free_credits_used) INTO v_free_refund
+  FROM generations
+  WHERE generations.id = release_generation_credit.reservation_id;
+
+  UPDATE users
+  SET
+    credits = credits + amount,
+    free_credits = free_credits + COALESCE(v_free_refund, 0),
+    total_spent = GREATEST(0, COALESCE(total_spent, 0) - amount),
+    updated_at = now()
+  WHERE users.auth_user_id = release_generation_credit.auth_id
+  RETURNING credits INTO v_credits;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('released', false, 'reason', 'user_not_found');
+  END IF;
+
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    release_generation_credit.auth_id,
+    'refund',
+    amount,
+    release_generation_credit.description,
+    jsonb_build_object('reservation_id', reservation_id, 'generation_id', reservation_id)
+  );
+
+  UPDATE generations
+  SET refunded_at = now(), updated_at = now()
+  WHERE generations.id = release_generation_credit.reservation_id;
+
+  RETURN json_build_object('released', true, 'credits', v_credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,13 @@
+-- migrations/021_generation_photo_key.sql
+-- Keep the person's photo out of provider_input. Uploaded photos are stored
+-- as their R2 key and signed again whenever the input is submitted; inline
+-- photos stay in provider_input only until the generation settles.
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS photo_key TEXT;
+
+-- Settled generations are never submitted again
+UPDATE generations
+SET provider_input = NULL
+WHERE status IN ('succeeded', 'failed', 'canceled')
+AND provider_input IS NOT NULL;
@@ -0,0 +1,64 @@
+-- migrations/023_release_generation_credit_claim.sql
+-- Make the refund-once guard race-free: the generation row is stamped
+-- refunded before any credits move, so of several concurrent releases (e.g.
+-- the webhook and a status check) only the first one pays out
+
+CREATE OR REPLACE FUNCTION release_generation_credit(
+  auth_id UUID,
+  reservation_id UUID,
+  amount INTEGER DEFAULT 1,
+  description TEXT DEFAULT 'Generation failed - credit refunded'
+) RETURNS JSON AS $$
+DECLARE
+  v_credits INTEGER;
+  v_free_refund INTEGER;
+BEGIN
+  IF amount IS NULL OR amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive, got %', amount;
+  END IF;
+
+  -- Claim the refund before paying it: the row lock makes concurrent callers
+  -- wait, and only the first one finds refunded_at still empty
+  UPDATE generations
+  SET refunded_at = now(), updated_at = now()
+  WHERE generations.id = release_generation_credit.reservation_id
+  AND generations.user_id = release_generation_credit.auth_id
+  AND generations.refunded_at IS NULL
+  RETURNING LEAST(release_generation_credit.amount, free_credits_used) INTO v_free_refund;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('released', false, 'reason', 'already_refunded');
+  END IF;
+
+  UPDATE users
+  SET
+    credits = credits + amount,
+    free_credits = free_credits + COALESCE(v_free_refund, 0),
+    total_spent = GREATEST(0, COALESCE(total_spent, 0) - amount),
+    updated_at = now()
+  WHERE users.auth_user_id = release_generation_credit.auth_id
+  RETURNING credits INTO v_credits;
+
+  IF NOT FOUND THEN
+    UPDATE generations
+    SET refunded_at = NULL
+    WHERE generations.id = release_generation_credit.reservation_id;
+
+    RETURN json_build_object('released', false, 'reason', 'user_not_found');
+  END IF;
+
+  INSERT INTO credit_events (user_id, type, amount, description, metadata)
+  VALUES (
+    release_generation_credit.auth_id,
+    'refund',
+    amount,
+    release_generation_credit.description,
+    jsonb_build_object('reservation_id', reservation_id, 'generation_id', reservation_id)
+  );
+
+  RETURN json_build_object('released', true, 'credits', v_credits);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) moves credits
+REVOKE EXECUTE ON FUNCTION release_generation_credit(UUID, UUID, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
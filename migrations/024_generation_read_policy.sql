@@ -0,0 +1,7 @@
+-- migrations/024_generation_read_policy.sql
+-- Generations are only read through the API, which serves outputs from their
+-- processed R2 copies. Reading the table directly with the anon client would
+-- expose the provider's raw output URLs, which carry no watermark - so with
+-- RLS still enabled and no policy left, only the service role can read it.
+
+DROP POLICY IF EXISTS "Users can read own generations" ON generations;
@@ -0,0 +1,7 @@
+-- migrations/025_generation_output_attempts.sql
+-- Failed attempts at storing a generation's processed outputs. Delivery waits
+-- for them only up to CONFIG.MAX_OUTPUT_ATTEMPTS: then paid results are served
+-- unprocessed and free-tier ones are failed and refunded.
+
+ALTER TABLE generations
+ADD COLUMN IF NOT EXISTS output_attempts INTEGER NOT NULL DEFAULT 0;
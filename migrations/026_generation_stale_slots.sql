@@ -0,0 +1,67 @@
+-- migrations/026_generation_stale_slots.sql
+-- Running generations stop counting against the concurrency limits once
+-- they're stale, whether or not a prediction was attached. Until then a
+-- prediction whose client went away kept one of its user's slots for good.
+-- Stale generations are settled by /api/cron/sweep.
+
+CREATE OR REPLACE FUNCTION claim_generation_slot(
+  generation_id UUID,
+  max_per_user INTEGER,
+  max_global INTEGER
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID;
+  v_created_at TIMESTAMPTZ;
+  v_user_running INTEGER;
+  v_global_running INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_generation_slot'));
+
+  SELECT user_id, created_at INTO v_user_id, v_created_at
+  FROM generations
+  WHERE id = claim_generation_slot.generation_id
+  AND status IN ('pending', 'queued');
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- A prediction times out long before this (a retry resets submitted_at), so
+  -- anything older is stale - a crashed request or a prediction nobody
+  -- polled - and no longer holds a slot while it waits for the sweep
+  SELECT
+    COUNT(*) FILTER (WHERE user_id = v_user_id),
+    COUNT(*)
+  INTO v_user_running, v_global_running
+  FROM generations
+  WHERE status IN ('starting', 'processing')
+  AND submitted_at > now() - INTERVAL '5 minutes';
+
+  -- A user's generations start in the order they were requested
+  IF v_user_running >= max_per_user
+    OR v_global_running >= max_global
+    OR EXISTS (
+      SELECT 1 FROM generations
+      WHERE user_id = v_user_id
+      AND status = 'queued'
+      AND created_at < v_created_at
+    )
+  THEN
+    UPDATE generations
+    SET status = 'queued', updated_at = now()
+    WHERE id = claim_generation_slot.generation_id
+    AND status = 'pending';
+
+    RETURN false;
+  END IF;
+
+  UPDATE generations
+  SET status = 'starting', submitted_at = now(), updated_at = now()
+  WHERE id = claim_generation_slot.generation_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) schedules generations
+REVOKE EXECUTE ON FUNCTION claim_generation_slot(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
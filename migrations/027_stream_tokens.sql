@@ -0,0 +1,18 @@
+-- migrations/027_stream_tokens.sql
+-- Short-lived, single-use tokens for the status stream. EventSource can't send
+-- an Authorization header, and a bearer token in the query string ends up in
+-- access logs, proxies and browser history
+
+CREATE TABLE IF NOT EXISTS stream_tokens (
+  token_hash TEXT PRIMARY KEY, -- SHA-256 of the token; the token itself is never stored
+  user_id UUID NOT NULL, -- auth_user_id
+  generation_id UUID NOT NULL REFERENCES generations(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stream_tokens_expires_at
+ON stream_tokens(expires_at);
+
+-- Only the service role touches this table
+ALTER TABLE stream_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,9 @@
+-- migrations/028_generation_inline_photos.sql
+-- Inline (base64) photos are no longer stored at all. Drop the ones still
+-- held by running or queued generations: those can't be retried any more, and
+-- queued ones are failed and refunded when the queue reaches them.
+
+UPDATE generations
+SET provider_input = NULL
+WHERE photo_key IS NULL
+AND provider_input IS NOT NULL;
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Output post-processing reads the watermark logo from disk
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./public/LabubufyLogo.png"],
+  },
 };
 
 export default nextConfig;